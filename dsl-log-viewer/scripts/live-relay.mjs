@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+// scripts/live-relay.mjs
+// Tails a Shattered Archive JSONL log and streams its lines over WebSocket for the viewer's
+// live mode. No dependencies: just enough of RFC 6455 for text frames to a browser.
+//
+//   node scripts/live-relay.mjs <log file> [--port 8787] [--no-history]
+//
+// New clients get the whole file so far (unless --no-history), then every line appended to it.
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+import { openSync, readSync, closeSync, statSync, watchFile } from "node:fs";
+
+const args = process.argv.slice(2);
+const file = args.find((a) => !a.startsWith("--"));
+const portArg = args.indexOf("--port");
+const port = portArg >= 0 ? Number(args[portArg + 1]) : 8787;
+const history = !args.includes("--no-history");
+if (!file) {
+  console.error("usage: node scripts/live-relay.mjs <log file> [--port 8787] [--no-history]");
+  process.exit(1);
+}
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const clients = new Set();
+
+function frame(text) {
+  const body = Buffer.from(text, "utf8");
+  const n = body.length;
+  const head = n < 126 ? Buffer.from([0x81, n])
+    : n < 65536 ? Buffer.from([0x81, 126, n >> 8, n & 255])
+    : Buffer.concat([Buffer.from([0x81, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(n)); return b; })()]);
+  return Buffer.concat([head, body]);
+}
+
+function readRange(from, to) {
+  if (to <= from) return "";
+  const fd = openSync(file, "r");
+  try {
+    const buf = Buffer.alloc(to - from);
+    readSync(fd, buf, 0, buf.length, from);
+    return buf.toString("utf8");
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Only whole lines go out; a half-written line waits for the next change
+let offset = 0;
+let partial = "";
+let backlog = ""; // everything sent so far, for late joiners
+function readNew() {
+  let size;
+  try { size = statSync(file).size; } catch { return ""; }
+  if (size < offset) { offset = 0; partial = ""; } // truncated or rotated
+  const text = partial + readRange(offset, size);
+  offset = size;
+  const cut = text.lastIndexOf("\n") + 1;
+  partial = text.slice(cut);
+  return text.slice(0, cut);
+}
+
+backlog = readNew();
+
+watchFile(file, { interval: 250 }, () => {
+  const lines = readNew();
+  if (!lines) return;
+  if (history) backlog += lines;
+  const f = frame(lines);
+  for (const s of clients) s.write(f);
+});
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("WebSocket only\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (!key) { socket.destroy(); return; }
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  if (history && backlog) socket.write(frame(backlog));
+  // Clients never send data we need; answer a close frame and drop the socket
+  socket.on("data", (buf) => {
+    if ((buf[0] & 0x0f) === 0x8) { socket.end(Buffer.from([0x88, 0])); clients.delete(socket); }
+  });
+  socket.on("close", () => clients.delete(socket));
+  socket.on("error", () => clients.delete(socket));
+});
+
+server.listen(port, () => console.log(`relaying ${file} on ws://localhost:${port}`));
@@ -0,0 +1,14 @@
+declare module "ansi-to-html" {
+  interface Options {
+    fg?: string;
+    bg?: string;
+    newline?: boolean;
+    escapeXML?: boolean;
+    stream?: boolean;
+    colors?: string[] | Record<number, string>;
+  }
+  export default class Convert {
+    constructor(options?: Options);
+    toHtml(input: string): string;
+  }
+}
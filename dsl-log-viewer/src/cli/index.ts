@@ -0,0 +1,213 @@
+// src/cli/index.ts
+// Batch conversion and fight reports without the browser:
+//
+//   dsl-log convert <file.log…> [--format plain|bbcode|html|discord] [--dialect named|hex]
+//                   [--from HH:MM:SS] [--to HH:MM:SS] [--fight N] [-o out]
+//   dsl-log fights  <file.log…> [--json]
+//
+// Both take [--segment gap|gmcp] [--gap MIN] for how fights are split, and
+// [--actors mapping.json] for the viewer's exported actor mapping, and
+// [--redact rules.json] for its exported redaction rules (names, regexes, tells).
+// Several files are merged into one timeline exactly like the viewer does.
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import {
+  DEFAULT_ACTOR_MAPPING, DEFAULT_BBCODE_CONFIG, DEFAULT_COMBAT_CONFIG, DEFAULT_SEGMENTATION, DISCORD, FIGHT_TAIL_MS, HTML, PLAIN_TEXT,
+  actorResolver, bbcodeFormat, computeFightStats, fmt1, loadSession, lowerBound, renderExport, segmentFights, upperBound,
+  parseActorMapping, parseRedactionConfig, redactor, type ActorResolver, type Redactor, type BBCodeDialectId, type ExportFormat, type Fight, type FightStats, type LogEntry, type SegmentationConfig,
+} from "../core";
+
+const USAGE = `usage:
+  dsl-log convert <file.log...> [--format plain|bbcode|html|discord] [--dialect named|hex]
+                  [--from HH:MM:SS] [--to HH:MM:SS] [--fight N] [-o out]
+  dsl-log fights  <file.log...> [--json]
+options for both: [--segment gap|gmcp] [--gap MIN] [--actors mapping.json] [--redact rules.json]`;
+
+class UsageError extends Error {}
+
+interface Args {
+  command: string;
+  files: string[];
+  opts: Map<string, string | true>;
+}
+
+const FLAGS = new Set(["--json"]); // options without a value
+
+function parseArgs(argv: string[]): Args {
+  const [command = "", ...rest] = argv;
+  const files: string[] = [];
+  const opts = new Map<string, string | true>();
+  for (let i = 0; i < rest.length; i++) {
+    const a = rest[i];
+    if (!a.startsWith("-")) { files.push(a); continue; }
+    if (FLAGS.has(a)) { opts.set(a, true); continue; }
+    const v = rest[++i];
+    if (v === undefined) throw new UsageError(`${a} needs a value`);
+    opts.set(a, v);
+  }
+  return { command, files, opts };
+}
+
+const opt = (args: Args, ...names: string[]) => {
+  for (const n of names) { const v = args.opts.get(n); if (typeof v === "string") return v; }
+  return undefined;
+};
+
+/* "HH:MM:SS", "MM:SS" or plain seconds → seconds */
+function parseClock(s: string): number {
+  const parts = s.split(":").map(Number);
+  if (parts.some((n) => !Number.isFinite(n))) throw new UsageError(`bad time "${s}"`);
+  return parts.reduce((acc, n) => acc * 60 + n, 0);
+}
+
+const hms = (sec: number) => new Date(Math.max(0, sec) * 1000).toISOString().substr(11, 8);
+const pctStr = (n: number, d: number) => (d > 0 ? `${Math.round((n / d) * 100)}%` : "—");
+
+function load(files: string[]): LogEntry[] {
+  if (!files.length) throw new UsageError("no log files given");
+  return loadSession(files.map((f) => readFileSync(f, "utf8")), DEFAULT_COMBAT_CONFIG);
+}
+
+function segmentationFor(args: Args): SegmentationConfig {
+  const mode = opt(args, "--segment") ?? DEFAULT_SEGMENTATION.mode;
+  if (mode !== "gap" && mode !== "gmcp") throw new UsageError(`unknown segmentation "${mode}"`);
+  const gap = opt(args, "--gap");
+  const gapMin = gap !== undefined ? Number(gap) : DEFAULT_SEGMENTATION.gapMs / 60000;
+  if (!(gapMin > 0)) throw new UsageError(`bad gap "${gap}"`);
+  return { mode, gapMs: gapMin * 60000 };
+}
+
+function actorsFor(args: Args): ActorResolver {
+  const file = opt(args, "--actors");
+  if (file === undefined) return actorResolver(DEFAULT_ACTOR_MAPPING);
+  try {
+    return actorResolver(parseActorMapping(readFileSync(file, "utf8")));
+  } catch (err) {
+    throw new UsageError(`${file}: ${(err as Error).message}`);
+  }
+}
+
+function redactorFor(args: Args): Redactor | null {
+  const file = opt(args, "--redact");
+  if (file === undefined) return null;
+  try {
+    return redactor(parseRedactionConfig(readFileSync(file, "utf8")));
+  } catch (err) {
+    throw new UsageError(`${file}: ${(err as Error).message}`);
+  }
+}
+
+const fightsOf = (entries: LogEntry[], args: Args): Fight[] => segmentFights(entries, segmentationFor(args));
+
+function formatFor(args: Args): ExportFormat {
+  const name = opt(args, "--format", "-f") ?? "plain";
+  switch (name) {
+    case "plain": return PLAIN_TEXT;
+    case "html": return HTML;
+    case "discord": return DISCORD;
+    case "bbcode": {
+      const dialect = (opt(args, "--dialect") ?? DEFAULT_BBCODE_CONFIG.dialect) as BBCodeDialectId;
+      if (dialect !== "named" && dialect !== "hex") throw new UsageError(`unknown dialect "${dialect}"`);
+      return bbcodeFormat({ ...DEFAULT_BBCODE_CONFIG, dialect });
+    }
+    default: throw new UsageError(`unknown format "${name}"`);
+  }
+}
+
+function convert(args: Args) {
+  const entries = load(args.files);
+  const fmt = formatFor(args);
+  if (!entries.length) throw new Error("no entries found");
+  const base = entries[0].ts.getTime();
+  const fightList = fightsOf(entries, args);
+
+  // range: a fight by number, or --from/--to in log time (like the viewer's in/out points)
+  let range: { start: number; end: number } | null = null;
+  const fightNo = opt(args, "--fight");
+  if (fightNo !== undefined) {
+    const f = fightList[Number(fightNo) - 1];
+    if (!f) throw new UsageError(`no fight #${fightNo}`);
+    range = { start: f.start, end: f.end + FIGHT_TAIL_MS };
+  } else if (opt(args, "--from") !== undefined || opt(args, "--to") !== undefined) {
+    const from = opt(args, "--from"), to = opt(args, "--to");
+    range = {
+      start: from !== undefined ? base + parseClock(from) * 1000 : base,
+      end: to !== undefined ? base + parseClock(to) * 1000 : Infinity,
+    };
+  }
+
+  let picked = entries;
+  let rangeLabel: string | undefined;
+  if (range) {
+    const times = Float64Array.from(entries, (e) => e.ts.getTime());
+    picked = entries.slice(lowerBound(times, range.start), upperBound(times, range.end));
+    const end = Math.min(range.end, entries[entries.length - 1].ts.getTime());
+    rangeLabel = `${hms((range.start - base) / 1000)}–${hms((end - base) / 1000)}`;
+  }
+
+  const redact = redactorFor(args);
+  const title = args.files.map((f) => basename(f)).join(", ") + (rangeLabel ? ` (${rangeLabel})` : "");
+  const text = renderExport(picked, fmt, { title: redact ? redact.text(title) : title, rangeLabel, fights: fightList, actors: actorsFor(args), redact });
+  const out = opt(args, "--out", "-o");
+  if (out) writeFileSync(out, text);
+  else process.stdout.write(text.endsWith("\n") ? text : text + "\n");
+}
+
+function fightText(f: FightStats, i: number, base: number): string {
+  const lines = [
+    `Fight #${i + 1}  ${hms((f.start - base) / 1000)}  ${fmt1(f.durationSec)}s, ${f.perRound.length} rounds${f.estimated ? " (estimated)" : ""}`,
+    `  ${fmt1(f.totalDamage)} dmg · ${f.hits} hits / ${f.misses} misses (${pctStr(f.hits, f.hits + f.misses)} hit) · ` +
+      `${fmt1(f.totalDamage / Math.max(f.durationSec, 1))} DPS`,
+  ];
+  for (const a of f.actors) {
+    lines.push(
+      `  ${(a.actor || "(unknown)").padEnd(20)} dealt ${fmt1(a.dealt).padStart(8)}  ${fmt1(a.dps).padStart(6)} DPS  ` +
+      `${pctStr(a.hits, a.hits + a.misses).padStart(4)} hit  taken ${fmt1(a.taken).padStart(8)}`
+    );
+  }
+  return lines.join("\n");
+}
+
+function fights(args: Args) {
+  const entries = load(args.files);
+  const base = entries[0]?.ts.getTime() ?? 0;
+  const redact = redactorFor(args);
+  const actors = redact ? redact.actors(actorsFor(args)) : actorsFor(args);
+  const stats = fightsOf(entries, args).map((f) => computeFightStats(f, actors));
+  if (args.opts.has("--json")) {
+    const report = {
+      files: args.files.map((f) => basename(f)),
+      start: entries[0]?.ts.toISOString() ?? null,
+      fights: stats.map((f, i) => ({
+        index: i + 1,
+        offsetSec: (f.start - base) / 1000,
+        startIso: new Date(f.start).toISOString(),
+        endIso: new Date(f.end).toISOString(),
+        ...f,
+      })),
+    };
+    process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+    return;
+  }
+  process.stdout.write((stats.length ? stats.map((f, i) => fightText(f, i, base)).join("\n\n") : "No fights found.") + "\n");
+}
+
+function main(argv: string[]) {
+  const args = parseArgs(argv);
+  switch (args.command) {
+    case "convert": return convert(args);
+    case "fights": return fights(args);
+    case "help": case "--help": case "-h": case "":
+      process.stdout.write(USAGE + "\n");
+      return;
+    default: throw new UsageError(`unknown command "${args.command}"`);
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (err) {
+  process.stderr.write(`dsl-log: ${(err as Error).message}\n`);
+  if (err instanceof UsageError) process.stderr.write(USAGE + "\n");
+  process.exit(err instanceof UsageError ? 2 : 1);
+}
@@ -0,0 +1,125 @@
+// src/components/ActorPanel.tsx
+import { ChangeEvent, FC, useEffect, useMemo, useState } from "react";
+import { ACTOR_TAGS, actorResolver, type ActorMapping, type ActorRule, type ActorTag } from "../core/actors";
+import { fmt1 } from "../core/damage";
+
+interface Props {
+  mapping: ActorMapping;
+  onApply: (m: ActorMapping) => void;
+  actors: { name: string; dealt: number }[]; // seen in this log
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const key = (name: string) => name.trim().toLowerCase();
+const isEmpty = (r: ActorRule) => !r.alias && !r.owner && !r.tag;
+
+const TAG_COLORS: Record<ActorTag, string> = { party: "#8c8", ally: "#4cf", enemy: "#f66" };
+
+/* Alias merging, pet → owner and party/ally/enemy tags for damage stats. Edits are a draft
+   until applied, since applying re-renders playback and every summary. */
+const ActorPanel: FC<Props> = ({ mapping, onApply, actors, onExport, onImport }) => {
+  const [draft, setDraft] = useState<ActorMapping>(mapping);
+  useEffect(() => setDraft(mapping), [mapping]); // e.g. after an import
+
+  const resolver = useMemo(() => actorResolver(draft), [draft]);
+  // actors from the log first, then rules for names this log doesn't have
+  const names = useMemo(() => {
+    const seen = new Set(actors.map((a) => key(a.name)));
+    return [...actors.map((a) => a.name), ...draft.rules.map((r) => r.name).filter((n) => !seen.has(key(n)))];
+  }, [actors, draft.rules]);
+  const dealt = useMemo(() => new Map(actors.map((a) => [key(a.name), a.dealt])), [actors]);
+
+  const ruleFor = (name: string) => draft.rules.find((r) => key(r.name) === key(name));
+  const setRule = (name: string, patch: Partial<ActorRule>) => {
+    const next = { ...(ruleFor(name) ?? { name }), ...patch };
+    const rest = draft.rules.filter((r) => key(r.name) !== key(name));
+    setDraft({ ...draft, rules: isEmpty(next) ? rest : [...rest, next] });
+  };
+
+  const pickImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (f) onImport(f);
+    e.target.value = ""; // allow re-importing the same file
+  };
+
+  return (
+    <div style={{ width: 460, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <div style={{ fontWeight: 600 }}>Actors</div>
+        <div style={{ color: "#aaa", margin: "2px 0 6px" }}>
+          Aliases merge names into one actor; a pet's damage counts for its owner.
+        </div>
+        <label title="Round headers, summaries and exports count only damage dealt by party members">
+          <input
+            type="checkbox" checked={draft.partyOnly}
+            onChange={(e) => setDraft({ ...draft, partyOnly: e.target.checked })}
+          />
+          Party-only totals
+        </label>
+        {draft.partyOnly && !draft.rules.some((r) => r.tag === "party") && (
+          <div style={{ color: "#fc6", marginTop: 4 }}>Tag at least one actor as party first.</div>
+        )}
+        <div style={{ marginTop: 6, display: "flex", gap: 4 }}>
+          <button onClick={() => onApply(draft)} disabled={draft === mapping}>Apply</button>
+          <button onClick={() => setDraft({ rules: [], partyOnly: false })} disabled={!draft.rules.length && !draft.partyOnly}>Clear</button>
+          <button onClick={onExport} disabled={!mapping.rules.length} style={{ marginLeft: "auto" }}>Export</button>
+          <label>
+            <input type="file" accept=".json,application/json" onChange={pickImport} style={{ display: "none" }} />
+            <span role="button" style={{ border: "1px solid #555", padding: "1px 6px", cursor: "pointer" }}>Import</span>
+          </label>
+        </div>
+      </div>
+      <div style={{ flex: 1, overflowY: "auto", padding: 8 }}>
+        {!names.length && <div style={{ color: "#aaa" }}>No actors in this log's damage rounds.</div>}
+        <datalist id="actor-names">
+          {names.map((n) => <option key={n} value={n} />)}
+        </datalist>
+        {names.length > 0 && (
+          <table style={{ borderCollapse: "collapse", width: "100%" }}>
+            <thead>
+              <tr style={{ color: "#aaa", textAlign: "left" }}>
+                <th>Actor</th><th>Alias of</th><th>Pet of</th><th>Tag</th>
+              </tr>
+            </thead>
+            <tbody>
+              {names.map((n) => {
+                const r = ruleFor(n);
+                const to = resolver.name(n);
+                const tag = resolver.tag(n);
+                return (
+                  <tr key={key(n)}>
+                    <td title={dealt.has(key(n)) ? `${fmt1(dealt.get(key(n))!)} dmg dealt` : "Not in this log"}>
+                      <span style={{ color: tag ? TAG_COLORS[tag] : dealt.has(key(n)) ? undefined : "#aaa" }}>{n}</span>
+                      {to !== n && <span style={{ color: "#aaa" }}> → {to}</span>}
+                    </td>
+                    <td>
+                      <input
+                        list="actor-names" value={r?.alias ?? ""} style={{ width: 90 }}
+                        onChange={(e) => setRule(n, { alias: e.target.value || undefined })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        list="actor-names" value={r?.owner ?? ""} style={{ width: 90 }}
+                        onChange={(e) => setRule(n, { owner: e.target.value || undefined })}
+                      />
+                    </td>
+                    <td>
+                      <select value={r?.tag ?? ""} onChange={(e) => setRule(n, { tag: (e.target.value || undefined) as ActorTag | undefined })}>
+                        <option value="">—</option>
+                        {ACTOR_TAGS.map((t) => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActorPanel;
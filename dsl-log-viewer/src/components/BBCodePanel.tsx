@@ -0,0 +1,80 @@
+// src/components/BBCodePanel.tsx
+import { FC, useMemo, useState } from "react";
+import { DEFAULT_BBCODE_CONFIG, DIALECTS, ansiToBBCode, type BBCodeConfig, type BBCodeDialectId } from "../core/bbcode";
+
+interface Props {
+  config: BBCodeConfig;
+  onApply: (cfg: BBCodeConfig) => void;
+  sample: string[]; // colored lines from the log, for the preview
+}
+
+const LABELS = ["Black", "Red", "Green", "Yellow", "Blue", "Magenta", "Cyan", "White"];
+
+/* Output dialect and the 16-color palette used by the BBCode export. */
+const BBCodePanel: FC<Props> = ({ config, onApply, sample }) => {
+  const [draft, setDraft] = useState<BBCodeConfig>(config);
+
+  const preview = useMemo(() => sample.map((l) => ansiToBBCode(l, draft)).join("\n"), [sample, draft]);
+
+  const setColor = (i: number, patch: { hex?: string; name?: string }) =>
+    setDraft({
+      ...draft,
+      palette: {
+        hex: draft.palette.hex.map((h, j) => (j === i && patch.hex !== undefined ? patch.hex : h)),
+        names: draft.palette.names.map((n, j) => (j === i && patch.name !== undefined ? patch.name : n)),
+      },
+    });
+
+  return (
+    <div style={{ width: 380, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <div style={{ fontWeight: 600 }}>BBCode export</div>
+        <div style={{ color: "#aaa", margin: "2px 0 6px" }}>
+          Bold basic colors export as their bright variant; 256-color codes use the nearest palette entry.
+        </div>
+        <label>
+          Dialect{" "}
+          <select value={draft.dialect} onChange={(e) => setDraft({ ...draft, dialect: e.target.value as BBCodeDialectId })}>
+            {DIALECTS.map((d) => <option key={d.id} value={d.id}>{d.label}</option>)}
+          </select>
+        </label>
+        <div style={{ marginTop: 6, display: "flex", gap: 4 }}>
+          <button onClick={() => onApply(draft)} disabled={draft === config}>Apply</button>
+          <button onClick={() => setDraft(DEFAULT_BBCODE_CONFIG)}>Defaults</button>
+        </div>
+      </div>
+      <div style={{ flex: 1, overflowY: "auto", padding: 8 }}>
+        <table style={{ borderCollapse: "collapse", width: "100%" }}>
+          <thead>
+            <tr style={{ color: "#aaa", textAlign: "left" }}>
+              <th>ANSI</th><th>Color</th><th>Name (named dialect)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.palette.hex.map((h, i) => (
+              <tr key={i}>
+                <td>{i < 8 ? LABELS[i] : `Bright ${LABELS[i - 8].toLowerCase()}`}</td>
+                <td>
+                  <input type="color" value={h} onChange={(e) => setColor(i, { hex: e.target.value })} />
+                  <span style={{ marginLeft: 4, color: "#aaa" }}>{h}</span>
+                </td>
+                <td>
+                  <input
+                    value={draft.palette.names[i]} style={{ width: "100%", boxSizing: "border-box" }}
+                    onChange={(e) => setColor(i, { name: e.target.value.toUpperCase() })}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div style={{ color: "#aaa", margin: "8px 0 2px" }}>Preview</div>
+        <pre style={{ margin: 0, whiteSpace: "pre-wrap", wordBreak: "break-all", background: "#111", padding: 6 }}>
+          {preview || "No colored lines in this log."}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default BBCodePanel;
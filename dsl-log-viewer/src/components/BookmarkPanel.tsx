@@ -0,0 +1,101 @@
+// src/components/BookmarkPanel.tsx
+import { ChangeEvent, FC, useState } from "react";
+import type { Bookmark } from "./bookmarks";
+
+interface Props {
+  bookmarks: Bookmark[]; // sorted by time
+  base: number;          // absolute ms of playback time 0
+  time: number;          // playback seconds
+  onAdd: (title: string, note: string) => void;
+  onChange: (list: Bookmark[]) => void;
+  onSeek: (t: number) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const hms = (ms: number) => new Date(Math.max(0, ms)).toISOString().substr(11, 8);
+
+/* Bookmarks at playback positions with a title and free-form note; click one to jump there. */
+const BookmarkPanel: FC<Props> = ({ bookmarks, base, time, onAdd, onChange, onSeek, onExport, onImport }) => {
+  const [title, setTitle] = useState<string>("");
+  const [note, setNote] = useState<string>("");
+  const [open, setOpen] = useState<string | null>(null);
+
+  const add = () => {
+    onAdd(title.trim() || `Bookmark ${bookmarks.length + 1}`, note.trim());
+    setTitle("");
+    setNote("");
+  };
+
+  const update = (id: string, patch: Partial<Bookmark>) =>
+    onChange(bookmarks.map((b) => (b.id === id ? { ...b, ...patch } : b)));
+
+  const pickImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (f) onImport(f);
+    e.target.value = ""; // allow re-importing the same file
+  };
+
+  // the bookmark playback is sitting on (or just past)
+  const current = [...bookmarks].reverse().find((b) => b.ts - base <= time * 1000 + 500)?.id;
+
+  return (
+    <div style={{ width: 300, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>
+          Bookmarks <span style={{ color: "#aaa", fontWeight: 400 }}>({bookmarks.length})</span>
+        </div>
+        <input
+          value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title"
+          onKeyDown={(e) => { if (e.key === "Enter") add(); }}
+          style={{ width: "100%", boxSizing: "border-box" }}
+        />
+        <textarea
+          value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note" rows={2}
+          style={{ width: "100%", boxSizing: "border-box", marginTop: 4, resize: "vertical" }}
+        />
+        <div style={{ marginTop: 4, display: "flex", gap: 4 }}>
+          <button onClick={add}>+ Add at {hms(time * 1000)}</button>
+          <button onClick={onExport} disabled={!bookmarks.length} style={{ marginLeft: "auto" }}>Export</button>
+          <label>
+            <input type="file" accept=".json,application/json" onChange={pickImport} style={{ display: "none" }} />
+            <span role="button" style={{ border: "1px solid #555", padding: "1px 6px", cursor: "pointer" }}>Import</span>
+          </label>
+        </div>
+      </div>
+      <div style={{ flex: 1, overflowY: "auto" }}>
+        {!bookmarks.length && <div style={{ padding: 8, color: "#aaa" }}>No bookmarks for this log yet.</div>}
+        {bookmarks.map((b) => (
+          <div key={b.id} style={{ borderBottom: "1px solid #333" }}>
+            <div
+              onClick={() => { onSeek((b.ts - base) / 1000); setOpen(open === b.id ? null : b.id); }}
+              style={{ padding: "4px 8px", cursor: "pointer", display: "flex", gap: 8, background: current === b.id ? "#3a3f7a" : "transparent" }}
+            >
+              <span style={{ color: "#4cf" }}>{hms(b.ts - base)}</span>
+              <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{b.title}</span>
+              {b.note && open !== b.id && <span style={{ color: "#aaa" }}>✎</span>}
+            </div>
+            {open === b.id && (
+              <div style={{ padding: "0 8px 8px" }}>
+                <input
+                  value={b.title} onChange={(e) => update(b.id, { title: e.target.value })}
+                  style={{ width: "100%", boxSizing: "border-box" }}
+                />
+                <textarea
+                  value={b.note} onChange={(e) => update(b.id, { note: e.target.value })} rows={3}
+                  style={{ width: "100%", boxSizing: "border-box", marginTop: 4, resize: "vertical" }}
+                />
+                <div style={{ display: "flex", gap: 4, marginTop: 4 }}>
+                  <button onClick={() => update(b.id, { ts: base + time * 1000 })}>Move to {hms(time * 1000)}</button>
+                  <button onClick={() => onChange(bookmarks.filter((x) => x.id !== b.id))} style={{ marginLeft: "auto" }}>Delete</button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BookmarkPanel;
@@ -0,0 +1,88 @@
+// src/components/CombatParserPanel.tsx
+import { FC, useMemo, useState } from "react";
+import {
+  DEFAULT_COMBAT_CONFIG, compileTable, parseCombatLine,
+  type CombatParserConfig, type VerbRange,
+} from "../core/combatParser";
+
+interface Props {
+  config: CombatParserConfig;
+  onApply: (cfg: CombatParserConfig) => void;
+  rounds: number; // estimated rounds found with the applied config
+}
+
+const num = { width: 44 } as const;
+
+/* Verb → damage-range table for logs without damage entries. Edits are a draft until applied,
+   since applying re-derives every round in the log. */
+const CombatParserPanel: FC<Props> = ({ config, onApply, rounds }) => {
+  const [draft, setDraft] = useState<CombatParserConfig>(config);
+  const [sample, setSample] = useState<string>("Your slash DECIMATES the goblin!");
+
+  const table = useMemo(() => compileTable(draft.verbs), [draft.verbs]);
+  const preview = useMemo(() => parseCombatLine(sample, table), [sample, table]);
+
+  const setVerb = (i: number, patch: Partial<VerbRange>) =>
+    setDraft({ ...draft, verbs: draft.verbs.map((v, j) => (j === i ? { ...v, ...patch } : v)) });
+
+  return (
+    <div style={{ width: 380, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <div style={{ fontWeight: 600 }}>Estimated damage</div>
+        <div style={{ color: "#aaa", margin: "2px 0 6px" }}>
+          This log has no damage entries, so rounds are derived from combat text ({rounds} found).
+        </div>
+        <label>
+          Round window{" "}
+          <input
+            type="number" min={0} step={100} style={{ width: 60 }} value={draft.roundWindowMs}
+            onChange={(e) => setDraft({ ...draft, roundWindowMs: Math.max(0, Number(e.target.value) || 0) })}
+          />{" "}ms
+        </label>
+        <div style={{ marginTop: 6, display: "flex", gap: 4 }}>
+          <button onClick={() => onApply(draft)} disabled={draft === config}>Apply</button>
+          <button onClick={() => setDraft(DEFAULT_COMBAT_CONFIG)}>Defaults</button>
+          <button onClick={() => setDraft({ ...draft, verbs: [...draft.verbs, { key: "", forms: [], min: 0, max: 0 }] })}>+ Verb</button>
+        </div>
+        <input
+          value={sample} onChange={(e) => setSample(e.target.value)} placeholder="Test a line…"
+          style={{ width: "100%", boxSizing: "border-box", marginTop: 6 }}
+        />
+        <div style={{ color: preview ? "#8c8" : "#aaa", marginTop: 2 }}>
+          {preview
+            ? `${preview.source} → ${preview.target}: ${preview.verbKey}, ~${preview.amount} dmg`
+            : "not recognized"}
+        </div>
+      </div>
+      <div style={{ flex: 1, overflowY: "auto", padding: 8 }}>
+        <table style={{ borderCollapse: "collapse", width: "100%" }}>
+          <thead>
+            <tr style={{ color: "#aaa", textAlign: "left" }}>
+              <th>Key</th><th>Forms (comma-separated)</th><th>Min</th><th>Max</th><th />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.verbs.map((v, i) => (
+              <tr key={i}>
+                <td><input value={v.key} style={{ width: 80 }} onChange={(e) => setVerb(i, { key: e.target.value })} /></td>
+                <td>
+                  <input
+                    value={v.forms.join(",")} style={{ width: "100%", boxSizing: "border-box" }}
+                    onChange={(e) => setVerb(i, { forms: e.target.value.split(",") })}
+                  />
+                </td>
+                <td><input type="number" style={num} value={v.min} onChange={(e) => setVerb(i, { min: Number(e.target.value) || 0 })} /></td>
+                <td><input type="number" style={num} value={v.max} onChange={(e) => setVerb(i, { max: Number(e.target.value) || 0 })} /></td>
+                <td>
+                  <button onClick={() => setDraft({ ...draft, verbs: draft.verbs.filter((_, j) => j !== i) })} title="Remove verb">✕</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CombatParserPanel;
@@ -0,0 +1,130 @@
+// src/components/DiagnosticsPanel.tsx
+import { FC, ReactNode, useState } from "react";
+import type { EntryDiagnostics, LineIssue, ParseDiagnostics } from "../core/diagnostics";
+
+interface Props {
+  files: { name: string; diagnostics?: ParseDiagnostics }[];
+  analysis: EntryDiagnostics;
+  gapSec: number;
+  onGapSec: (sec: number) => void;
+  base: number; // absolute ms of playback time 0
+  onSeek: (t: number) => void;
+}
+
+const hms = (ms: number) => new Date(Math.max(0, ms)).toISOString().substr(11, 8);
+
+const warn = (n: number) => ({ color: n > 0 ? "#fc6" : "#8c8" });
+
+const Section: FC<{ title: string; count?: number; children: ReactNode }> = ({ title, count, children }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  return (
+    <div style={{ borderBottom: "1px solid #333" }}>
+      <div onClick={() => setOpen(!open)} style={{ padding: "4px 8px", cursor: "pointer", display: "flex", gap: 8 }}>
+        <span>{open ? "▾" : "▸"} {title}</span>
+        {count !== undefined && <span style={{ marginLeft: "auto", ...warn(count) }}>{count}</span>}
+      </div>
+      {open && <div style={{ padding: "0 8px 6px 20px" }}>{children}</div>}
+    </div>
+  );
+};
+
+const Counts: FC<{ counts: Record<string, number> }> = ({ counts }) => {
+  const rows = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (!rows.length) return <div style={{ color: "#aaa" }}>None.</div>;
+  return (
+    <table style={{ borderCollapse: "collapse", width: "100%" }}>
+      <tbody>
+        {rows.map(([k, n]) => (
+          <tr key={k}><td>{k}</td><td style={{ textAlign: "right" }}>{n}</td></tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const Lines: FC<{ issues: LineIssue[]; total: number }> = ({ issues, total }) => (
+  <>
+    {!issues.length && <div style={{ color: "#aaa" }}>None.</div>}
+    {issues.map((l, i) => (
+      <div key={i} style={{ marginBottom: 4 }}>
+        <div><span style={{ color: "#4cf" }}>line {l.line}</span> <span style={{ color: "#aaa" }}>{l.reason}</span></div>
+        <code style={{ display: "block", color: "#ccc", wordBreak: "break-all" }}>{l.sample}</code>
+      </div>
+    ))}
+    {total > issues.length && <div style={{ color: "#aaa" }}>…and {total - issues.length} more</div>}
+  </>
+);
+
+/* Why a log looks wrong: what was read, what was skipped or dropped, and what doesn't add up. */
+const DiagnosticsPanel: FC<Props> = ({ files, analysis, gapSec, onGapSec, base, onSeek }) => (
+  <div style={{ width: 380, overflowY: "auto", background: "#222", color: "#fff", fontSize: 12 }}>
+    <div style={{ padding: 8, fontWeight: 600, borderBottom: "1px solid #333" }}>Diagnostics</div>
+
+    {files.map((f, i) => {
+      const d = f.diagnostics;
+      const skipped = d ? Object.values(d.skipped).reduce((s, n) => s + n, 0) : 0;
+      return (
+        <div key={i}>
+          <div style={{ padding: "6px 8px 2px", color: "#aaa" }}>{f.name}{d ? ` · ${d.lines} lines` : ""}</div>
+          {!d && <div style={{ padding: "0 8px 6px", color: "#aaa" }}>No parse report (live stream).</div>}
+          {d && (
+            <>
+              <Section title="Entries by type"><Counts counts={d.byType} /></Section>
+              <Section title="Entries by type/subtype"><Counts counts={d.bySubtype} /></Section>
+              <Section title="Skipped (no type or invalid payload)" count={skipped}>
+                <Counts counts={d.skipped} />
+                <div style={{ marginTop: 4 }}><Lines issues={d.skippedLines} total={skipped} /></div>
+              </Section>
+              <Section title="Payload problems (kept, rollups filled in)" count={d.payloadIssues}>
+                <Lines issues={d.payloadIssueLines} total={d.payloadIssues} />
+              </Section>
+              <Section title="Unparsable lines" count={d.unparsable}>
+                <Lines issues={d.unparsableLines} total={d.unparsable} />
+              </Section>
+              <Section title="Invalid timestamps (dropped)" count={d.badTimestamps}>
+                <Lines issues={d.badTimestampLines} total={d.badTimestamps} />
+              </Section>
+              <Section title="Out-of-order timestamps (re-sorted)" count={d.outOfOrder}>
+                <Lines issues={d.outOfOrderLines} total={d.outOfOrder} />
+              </Section>
+              <div style={{ padding: "4px 8px", display: "flex", borderBottom: "1px solid #333" }}>
+                <span>Duplicate lines removed</span>
+                <span style={{ marginLeft: "auto", ...warn(d.duplicates) }}>{d.duplicates}</span>
+              </div>
+            </>
+          )}
+        </div>
+      );
+    })}
+
+    <div style={{ padding: "6px 8px 2px", color: "#aaa" }}>Whole timeline</div>
+    <Section title={`Gaps over ${Math.round(gapSec / 60)} min`} count={analysis.gaps.length}>
+      <label style={{ display: "block", marginBottom: 4 }}>
+        Threshold{" "}
+        <input
+          type="number" min={1} step={1} style={{ width: 50 }} value={Math.round(gapSec / 60)}
+          onChange={(e) => onGapSec(Math.max(1, Number(e.target.value) || 1) * 60)}
+        />{" "}min
+      </label>
+      {!analysis.gaps.length && <div style={{ color: "#aaa" }}>None.</div>}
+      {analysis.gaps.map((g, i) => (
+        <div key={i} onClick={() => onSeek((g.ts - base) / 1000)} style={{ cursor: "pointer" }}>
+          <span style={{ color: "#4cf" }}>{hms(g.ts - base)}</span> after {Math.round(g.seconds / 60)} min of silence
+        </div>
+      ))}
+    </Section>
+    <Section title="Damage rounds that don't add up" count={analysis.damage}>
+      {!analysis.damageIssues.length && <div style={{ color: "#aaa" }}>None.</div>}
+      {analysis.damageIssues.map((d, i) => (
+        <div key={i} onClick={() => onSeek((d.ts - base) / 1000)} style={{ cursor: "pointer", marginBottom: 2 }}>
+          <span style={{ color: "#4cf" }}>{hms(d.ts - base)}</span> {d.message}
+        </div>
+      ))}
+      {analysis.damage > analysis.damageIssues.length && (
+        <div style={{ color: "#aaa" }}>…and {analysis.damage - analysis.damageIssues.length} more</div>
+      )}
+    </Section>
+  </div>
+);
+
+export default DiagnosticsPanel;
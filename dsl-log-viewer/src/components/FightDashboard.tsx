@@ -0,0 +1,170 @@
+// src/components/FightDashboard.tsx
+import { FC, useState } from "react";
+import { fmt1 } from "../core/damage";
+import type { FightStats } from "../core/fightStats";
+import type { SegmentationConfig, SegmentMode } from "../core/segmentation";
+
+interface Props {
+  fights: FightStats[];
+  base: number; // absolute ms of playback time 0
+  onSeek: (t: number) => void;
+  config: SegmentationConfig;
+  onConfig: (cfg: SegmentationConfig) => void;
+  hasCombatFlag: boolean;      // the log has GMCP is_fighting samples
+  edits: number;               // manual splits + merges in effect
+  splitAt: number | null;      // round a split at the playback position would start from
+  onSplit: (ts: number) => void;
+  onMerge: (i: number) => void; // fold fight i into fight i - 1
+  onResetEdits: () => void;
+}
+
+const CHART_W = 400;
+const CHART_H = 80;
+
+const hms = (ms: number) => new Date(Math.max(0, ms)).toISOString().substr(11, 8);
+const pctStr = (n: number, d: number) => (d > 0 ? `${Math.round((n / d) * 100)}%` : "—");
+
+const th = { textAlign: "right", padding: "1px 4px", color: "#aaa", fontWeight: 400 } as const;
+const td = { textAlign: "right", padding: "1px 4px" } as const;
+
+const RoundChart: FC<{ rounds: FightStats["perRound"] }> = ({ rounds }) => {
+  const max = Math.max(1, ...rounds.map((r) => r.damage));
+  const w = CHART_W / Math.max(rounds.length, 1);
+  return (
+    <svg width={CHART_W} height={CHART_H} style={{ display: "block", background: "#111" }}>
+      {rounds.map((r, i) => {
+        const h = (r.damage / max) * (CHART_H - 2);
+        return (
+          <rect key={i} x={i * w} y={CHART_H - h} width={Math.max(w - 1, 1)} height={h} fill="#d80">
+            <title>Round {i + 1}: {fmt1(r.damage)} dmg</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+const FightDetail: FC<{ f: FightStats }> = ({ f }) => (
+  <div style={{ padding: "6px 8px 10px", borderBottom: "1px solid #333" }}>
+    {f.estimated && (
+      <div style={{ color: "#d80", marginBottom: 4 }}>≈ Estimated from combat text using the verb table.</div>
+    )}
+    <div style={{ color: "#aaa", marginBottom: 4 }}>
+      {fmt1(f.totalDamage)} dmg · {f.hits} hits / {f.misses} misses ({pctStr(f.hits, f.hits + f.misses)} hit) ·{" "}
+      {fmt1(f.totalDamage / Math.max(f.durationSec, 1))} DPS
+    </div>
+
+    <table style={{ borderCollapse: "collapse", width: "100%", marginBottom: 8 }}>
+      <thead>
+        <tr>
+          <th style={{ ...th, textAlign: "left" }}>Actor</th>
+          <th style={th}>Dealt</th><th style={th}>DPS</th><th style={th}>Hit%</th>
+          <th style={th}>Taken</th><th style={th}>Hits in</th>
+        </tr>
+      </thead>
+      <tbody>
+        {f.actors.map((a) => (
+          <tr key={a.actor}>
+            <td style={{ ...td, textAlign: "left" }}>{a.actor || "(unknown)"}</td>
+            <td style={td}>{fmt1(a.dealt)}</td>
+            <td style={td}>{fmt1(a.dps)}</td>
+            <td style={td}>{pctStr(a.hits, a.hits + a.misses)}</td>
+            <td style={td}>{fmt1(a.taken)}</td>
+            <td style={td}>{a.hitsTaken}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div style={{ color: "#aaa", marginBottom: 2 }}>Damage per round</div>
+    <RoundChart rounds={f.perRound} />
+
+    {f.byVerb.length > 0 && (
+      <table style={{ borderCollapse: "collapse", width: "100%", marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={{ ...th, textAlign: "left" }}>Verb</th>
+            <th style={th}>Damage</th><th style={th}>Hits</th><th style={th}>Misses</th><th style={th}>Avg</th>
+          </tr>
+        </thead>
+        <tbody>
+          {f.byVerb.map((v) => (
+            <tr key={v.verb}>
+              <td style={{ ...td, textAlign: "left" }}>{v.verb}</td>
+              <td style={td}>{fmt1(v.damage)}</td>
+              <td style={td}>{v.hits}</td>
+              <td style={td}>{v.misses}</td>
+              <td style={td}>{v.hits ? fmt1(v.damage / v.hits) : "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+/* Every fight under the chosen segmentation; click one to seek there and expand it.
+   Splits and merges made here feed playback summaries and exports too. */
+const FightDashboard: FC<Props> = ({
+  fights, base, onSeek, config, onConfig, hasCombatFlag, edits, splitAt, onSplit, onMerge, onResetEdits,
+}) => {
+  const [open, setOpen] = useState<number | null>(null);
+
+  return (
+    <div style={{ width: CHART_W + 20, overflowY: "auto", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>
+          Fights <span style={{ color: "#aaa", fontWeight: 400 }}>({fights.length})</span>
+        </div>
+        <label>
+          Split by{" "}
+          <select value={config.mode} onChange={(e) => onConfig({ ...config, mode: e.target.value as SegmentMode })}>
+            <option value="gap">Damage gap</option>
+            <option value="gmcp">GMCP is_fighting</option>
+          </select>
+        </label>
+        <label style={{ marginLeft: 8 }} title={config.mode === "gmcp" ? "Used where the log has no GMCP combat flag" : undefined}>
+          gap{" "}
+          <input
+            type="number" min={0.5} step={0.5} style={{ width: 48 }} value={config.gapMs / 60000}
+            onChange={(e) => onConfig({ ...config, gapMs: Math.max(0.5, Number(e.target.value) || 0.5) * 60000 })}
+          />{" "}min
+        </label>
+        {config.mode === "gmcp" && !hasCombatFlag && (
+          <div style={{ color: "#fc6", marginTop: 4 }}>No is_fighting samples in this log; using the damage gap.</div>
+        )}
+        <div style={{ marginTop: 6, display: "flex", gap: 4 }}>
+          <button onClick={() => splitAt !== null && onSplit(splitAt)} disabled={splitAt === null} title="Start a new fight with the next round">
+            ✂ Split{splitAt !== null && ` at ${hms(splitAt - base)}`}
+          </button>
+          <button onClick={onResetEdits} disabled={!edits} style={{ marginLeft: "auto" }}>
+            Reset edits{edits > 0 && ` (${edits})`}
+          </button>
+        </div>
+      </div>
+      {!fights.length && <div style={{ padding: 8, color: "#aaa" }}>No damage rounds in this log.</div>}
+      {fights.map((f, i) => (
+        <div key={f.start}>
+          <div
+            onClick={() => { setOpen(open === i ? null : i); onSeek((f.start - base) / 1000); }}
+            style={{ padding: "4px 8px", cursor: "pointer", display: "flex", gap: 8, background: open === i ? "#3a3f7a" : "transparent" }}
+          >
+            <span style={{ fontWeight: 600 }}>#{i + 1}</span>
+            <span>{hms(f.start - base)}</span>
+            <span style={{ color: "#aaa" }}>{fmt1(f.durationSec)}s · {f.perRound.length} rounds</span>
+            <span style={{ marginLeft: "auto" }}>{f.estimated && "≈"}{fmt1(f.totalDamage)} dmg</span>
+            {i > 0 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); setOpen(null); onMerge(i); }}
+                title={`Merge into fight #${i}`} style={{ padding: "0 4px" }}
+              >⤒</button>
+            )}
+          </div>
+          {open === i && <FightDetail f={f} />}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FightDashboard;
@@ -0,0 +1,83 @@
+// src/components/FilterPanel.tsx
+import { FC } from "react";
+import { ruleError, type FilterKind, type FilterMode, type FilterRule } from "../core/filters";
+
+interface Props {
+  rules: FilterRule[];
+  onChange: (rules: FilterRule[]) => void;
+  subtypes: string[]; // suggestions from the loaded log
+  shown: number;
+  total: number;
+}
+
+const KIND_LABELS: Record<FilterKind, string> = {
+  type: "Type",
+  subtype: "Subtype",
+  channel: "Channel prefix",
+  regex: "Regex",
+};
+
+const PLACEHOLDERS: Record<FilterKind, string> = {
+  type: "dsl-message / damage",
+  subtype: "raw-buffer",
+  channel: "[ IMPLEMENTOR ]",
+  regex: "tells you|says",
+};
+
+let nextId = 1;
+const newRule = (): FilterRule => ({ id: nextId++, enabled: true, mode: "exclude", kind: "channel", value: "" });
+
+/* Include/exclude rule editor. Rules apply to playback, the popup and every export. */
+const FilterPanel: FC<Props> = ({ rules, onChange, subtypes, shown, total }) => {
+  const update = (id: number, patch: Partial<FilterRule>) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  return (
+    <div style={{ width: 340, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333", display: "flex", alignItems: "center", gap: 6 }}>
+        <span style={{ fontWeight: 600 }}>Filters</span>
+        <span style={{ color: "#aaa" }}>{shown} / {total} entries</span>
+        <button style={{ marginLeft: "auto" }} onClick={() => onChange([...rules, newRule()])}>+ Rule</button>
+        {rules.length > 0 && <button onClick={() => onChange([])}>Clear</button>}
+      </div>
+      <datalist id="filter-subtypes">
+        {subtypes.map((s) => <option key={s} value={s} />)}
+      </datalist>
+      <div style={{ flex: 1, overflowY: "auto", padding: 8 }}>
+        {!rules.length && (
+          <div style={{ color: "#aaa" }}>
+            No rules: everything is shown. Include rules keep only matching entries; exclude rules drop them.
+          </div>
+        )}
+        {rules.map((r) => {
+          const err = ruleError(r);
+          return (
+            <div key={r.id} style={{ marginBottom: 8, opacity: r.enabled ? 1 : 0.5 }}>
+              <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                <input type="checkbox" checked={r.enabled} onChange={(e) => update(r.id, { enabled: e.target.checked })} />
+                <select value={r.mode} onChange={(e) => update(r.id, { mode: e.target.value as FilterMode })}>
+                  <option value="include">include</option>
+                  <option value="exclude">exclude</option>
+                </select>
+                <select value={r.kind} onChange={(e) => update(r.id, { kind: e.target.value as FilterKind })}>
+                  {(Object.keys(KIND_LABELS) as FilterKind[]).map((k) => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+                </select>
+                <button style={{ marginLeft: "auto" }} onClick={() => onChange(rules.filter((x) => x.id !== r.id))} title="Remove rule">✕</button>
+              </div>
+              <input
+                value={r.value}
+                placeholder={PLACEHOLDERS[r.kind]}
+                list={r.kind === "subtype" ? "filter-subtypes" : undefined}
+                onChange={(e) => update(r.id, { value: e.target.value })}
+                style={{ width: "100%", boxSizing: "border-box", marginTop: 2 }}
+              />
+              {err && <div style={{ color: "#e66" }}>{err}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FilterPanel;
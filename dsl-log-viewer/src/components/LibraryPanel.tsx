@@ -0,0 +1,103 @@
+// src/components/LibraryPanel.tsx
+import { FC, useMemo, useState } from "react";
+import { fmt1 } from "../core/damage";
+import type { LibrarySession } from "./library";
+
+interface Props {
+  sessions: LibrarySession[];
+  current: string | null; // key of the session being viewed
+  usage: { usage: number; quota: number } | null;
+  capMb: number;
+  onCapMb: (mb: number) => void;
+  onOpen: (s: LibrarySession) => void;
+  onDelete: (s: LibrarySession) => void;
+  onTags: (s: LibrarySession, tags: string[]) => void;
+  notice?: string | null;
+}
+
+const mb = (bytes: number) => `${fmt1(bytes / (1024 * 1024))} MB`;
+const hms = (sec: number) => new Date(Math.max(0, sec) * 1000).toISOString().substr(11, 8);
+const parseTags = (s: string) => [...new Set(s.split(",").map((t) => t.trim()).filter(Boolean))];
+
+// search text: file names, character and tags
+const haystack = (s: LibrarySession) =>
+  [...s.files.map((f) => f.name), s.summary?.character ?? "", ...s.tags].join(" ").toLowerCase();
+
+/* Logs loaded before, kept in the browser: reopen (at the last playback position), tag, search, delete. */
+const LibraryPanel: FC<Props> = ({ sessions, current, usage, capMb, onCapMb, onOpen, onDelete, onTags, notice }) => {
+  const [query, setQuery] = useState<string>("");
+
+  const total = sessions.reduce((s, x) => s + x.size, 0);
+  const list = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return words.length ? sessions.filter((s) => words.every((w) => haystack(s).includes(w))) : sessions;
+  }, [sessions, query]);
+
+  return (
+    <div style={{ width: 420, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <div style={{ fontWeight: 600 }}>Library</div>
+        <div style={{ color: "#aaa", margin: "2px 0 6px" }}>
+          {sessions.length} sessions · {mb(total)} of {capMb} MB
+          {usage && usage.quota > 0 && ` · browser storage ${mb(usage.usage)} / ${mb(usage.quota)}`}
+        </div>
+        <label title="Least recently opened sessions are dropped to stay under this">
+          Size cap{" "}
+          {/* committed on blur/Enter: lowering the cap deletes sessions, so not on every keystroke */}
+          <input
+            key={capMb} type="number" min={1} step={50} defaultValue={capMb} style={{ width: 60 }}
+            onBlur={(e) => { const n = Number(e.target.value); if (n > 0 && n !== capMb) onCapMb(n); e.target.value = String(capMb); }}
+            onKeyDown={(e) => { if (e.key === "Enter") e.currentTarget.blur(); }}
+          /> MB
+        </label>
+        <input
+          value={query} placeholder="Search names, character, tags" onChange={(e) => setQuery(e.target.value)}
+          style={{ width: "100%", boxSizing: "border-box", marginTop: 6 }}
+        />
+        {notice && <div style={{ color: "#fc6", marginTop: 4 }}>{notice}</div>}
+      </div>
+      <div style={{ flex: 1, overflowY: "auto", padding: 8 }}>
+        {!sessions.length && <div style={{ color: "#aaa" }}>Logs you open are saved here.</div>}
+        {sessions.length > 0 && !list.length && <div style={{ color: "#aaa" }}>No session matches.</div>}
+        {list.map((s) => {
+          const sum = s.summary;
+          return (
+            <div
+              key={s.key}
+              style={{ marginBottom: 8, padding: 6, background: s.key === current ? "#2f3366" : "#1a1a1a", borderLeft: "3px solid #646cff" }}
+            >
+              <div style={{ display: "flex", gap: 6, alignItems: "baseline" }}>
+                <span style={{ fontWeight: 600 }}>{sum?.character ?? "Unknown character"}</span>
+                <span style={{ color: "#aaa", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={s.files.map((f) => f.name).join("\n")}>
+                  {s.files.map((f) => f.name).join(", ")}
+                </span>
+              </div>
+              {sum && (
+                <div style={{ color: "#ccc" }}>
+                  {new Date(sum.start).toLocaleString()} – {new Date(sum.end).toLocaleTimeString()} · {hms(sum.durationSec)}
+                  {" · "}{sum.fights} fights · {fmt1(sum.totalDamage)} dmg
+                </div>
+              )}
+              <div style={{ color: "#aaa" }}>
+                {mb(s.size)} · opened {new Date(s.openedAt).toLocaleDateString()}
+                {s.position > 0 && ` · resume at ${hms(s.position)}`}
+              </div>
+              <div style={{ display: "flex", gap: 4, marginTop: 4, alignItems: "center" }}>
+                <input
+                  key={s.tags.join(",")} defaultValue={s.tags.join(", ")} placeholder="tags, comma separated"
+                  onBlur={(e) => { const t = parseTags(e.target.value); if (t.join(",") !== s.tags.join(",")) onTags(s, t); }}
+                  onKeyDown={(e) => { if (e.key === "Enter") e.currentTarget.blur(); }}
+                  style={{ flex: 1, minWidth: 0 }}
+                />
+                <button onClick={() => onOpen(s)} disabled={s.key === current}>Open</button>
+                <button onClick={() => window.confirm(`Delete ${s.files.map((f) => f.name).join(", ")} from the library?`) && onDelete(s)} title="Delete">✕</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryPanel;
@@ -1,45 +1,82 @@
 // src/components/LogPlaybackXterm.tsx
-import React, { useState, useEffect, useRef, ChangeEvent, FC } from "react";
+import { useState, useEffect, useMemo, useRef, ChangeEvent, FC } from "react";
 import { Terminal } from "@xterm/xterm";
 import { FitAddon } from "@xterm/addon-fit";
+import { SearchAddon } from "@xterm/addon-search";
 import "@xterm/xterm/css/xterm.css";
-
-interface DamageActorRow {
-  actor: string;
-  totalAsSource: number;
-  totalAsTarget: number;
-  countAsSource: number; // hits as source
-  countAsTarget: number;
-}
-
-interface DamageEvent {
-  raw: string;
-  source: string;
-  target: string;
-  verbKey: string;
-  amount: number; // 0 => miss
+import VitalsPanel, { type VitalsSample } from "./VitalsPanel";
+import Timeline, { type TimelineMarker } from "./Timeline";
+import SearchPanel, { type SearchHit, type SearchLine, type SearchQuery } from "./SearchPanel";
+import FilterPanel from "./FilterPanel";
+import { compileFilter, type FilterRule } from "../core/filters";
+import FightDashboard from "./FightDashboard";
+import { computeFightStats } from "../core/fightStats";
+import CombatParserPanel from "./CombatParserPanel";
+import type { CombatParserConfig } from "../core/combatParser";
+import {
+  FIGHT_TAIL_MS, addRoundToFight, buildRoundPerSourceLines, cloneFightAccumulator, fightSummaryLines, hasFightData, newFightAccumulator,
+  type DamagePayload, type FightAccumulator,
+} from "../core/damage";
+import {
+  NO_EDITS, combatSpans, fightIndexAt, segmentFights, splitPoint, withMerge, withSplit,
+  type FightEdits, type SegmentationConfig,
+} from "../core/segmentation";
+import { stripAnsi } from "../core/ansi";
+import { entryDamage, entryHandler, renderEntry } from "../core/entryTypes";
+import { DISCORD, HTML, PLAIN_TEXT, bbcodeFormat, renderExport, type ExportFormat } from "../core/exporters";
+import BBCodePanel from "./BBCodePanel";
+import type { BBCodeConfig } from "../core/bbcode";
+import {
+  loadActorMapping, loadBBCodeConfig, loadCombatConfig, loadLibraryCapMb, loadRedactionConfig, loadSegmentationConfig,
+  saveActorMapping, saveBBCodeConfig, saveCombatConfig, saveLibraryCapMb, saveRedactionConfig, saveSegmentationConfig,
+} from "./storage";
+import { appendEntries, lowerBound, upperBound, type LogEntry } from "../core/logParser";
+import { mergeSources, withEstimatedDamage } from "../core/session";
+import BookmarkPanel from "./BookmarkPanel";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import ProgressPanel from "./ProgressPanel";
+import ActorPanel from "./ActorPanel";
+import TranscriptPane from "./TranscriptPane";
+import RedactionPanel from "./RedactionPanel";
+import LibraryPanel from "./LibraryPanel";
+import {
+  addSession, deleteSession, enforceCap, listSessions, loadSessionFiles, storageEstimate, updateSession, type LibrarySession,
+} from "./library";
+import { actorResolver, knownActors, parseActorMapping, type ActorMapping } from "../core/actors";
+import { computeProgress, progressCsv } from "../core/progress";
+import { parseRedactionConfig, redactor, type RedactionConfig } from "../core/redaction";
+import { summarizeLog } from "../core/logSummary";
+import { DEFAULT_GAP_SEC, analyzeEntries, type ParseDiagnostics } from "../core/diagnostics";
+import {
+  loadBookmarks, mergeBookmarks, newBookmarkId, parseSidecar, saveBookmarks, sortBookmarks, toSidecar, type Bookmark,
+} from "./bookmarks";
+import { connectLive, type LiveHandle, type LiveStatus } from "./liveTail";
+import type { ParseRequest, ParseResponse } from "./parseLog.worker";
+
+interface LoadedFile {
+  name: string;
+  entries: LogEntry[];
+  visible: boolean;
+  live?: boolean; // grows from a WebSocket instead of a file
+  hash?: string;  // content hash from the parse worker
+  diagnostics?: ParseDiagnostics;
 }
 
-interface DamagePayload {
-  totalDamage: number;
-  hits: number;
-  misses: number;
-  events?: DamageEvent[];
-  bySource?: DamageActorRow[];
-  byTarget?: DamageActorRow[];
-}
-
-type EntryType = "dsl-message" | "damage";
-
-interface LogEntry {
-  ts: Date;
-  type: EntryType;
-  message?: string;
-  payload?: DamagePayload;
+/* Save generated text through a temporary download link */
+function downloadFile(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
 const tickTimer = 42;
-const FIVE_MIN_MS = 5 * 60 * 1000;
+const MB = 1024 * 1024;
+const POSITION_SAVE_MS = 2000; // resume position is written at most this often while playing
+const SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16, 32];
+const CHECKPOINT_EVERY = 5000; // entries between saved fight states, so seeks replay at most this many
 
 /* Fit guards */
 function safeFit(addon: FitAddon | null, t: Terminal | null, container: HTMLElement | null) {
@@ -51,147 +88,545 @@ function safeFit(addon: FitAddon | null, t: Terminal | null, container: HTMLElem
   try { addon.fit(); } catch {}
 }
 
-/* Strip the first leading "[ … ] " prefix, if present. */
-function normalizeActor(name: string): string {
-  return (name || "").replace(/^\s*\[[^\]]*]\s*/, "");
+/* Gutter colors per loaded file: CSS for the UI, xterm-256 index for the terminal */
+const SOURCE_COLORS = [
+  { css: "#5f87ff", x: 69 }, { css: "#ff8700", x: 208 }, { css: "#5fd75f", x: 77 },
+  { css: "#d75fd7", x: 170 }, { css: "#ffd700", x: 220 }, { css: "#5fd7d7", x: 80 },
+];
+const SHARED_COLOR = { css: "#8a8a8a", x: 245 }; // line seen in more than one file
+const sourceColor = (i: number) => SOURCE_COLORS[i % SOURCE_COLORS.length];
+
+/* Live appends keep the rendered prefix (same entry objects up to the render cursor),
+   so playback can continue from the cursor instead of rebuilding the terminal */
+function extendsRendered(prev: LogEntry[] | null, next: LogEntry[], done: number): boolean {
+  if (!prev || done === 0) return false;
+  return next.length >= done && prev.length >= done && next[0] === prev[0] && next[done - 1] === prev[done - 1];
 }
 
-/* number → 1-decimal, drop trailing .0 */
-function fmt1(n: number): string {
-  const v = Math.round((n ?? 0) * 10) / 10;
-  return Number.isFinite(v) ? (v % 1 === 0 ? String(v) : v.toFixed(1)) : "0";
+/* Fight batching state before entry `index`, to resume playback from without replaying the log */
+interface PlaybackCheckpoint {
+  index: number;
+  fight: number | null;
+  acc: FightAccumulator;
 }
 
-/* Parse JSONL for dsl-message + damage
-   CHANGE: Only dsl-message lines are deduped; damage rounds are kept verbatim. */
-function parseLog(text: string): LogEntry[] {
-  const raw: LogEntry[] = [];
-  for (const line of text.split(/\r?\n/)) {
-    if (!line.trim()) continue;
-    let obj: any;
-    try { obj = JSON.parse(line); } catch { continue; }
-
-    if (obj.type === "dsl-message") {
-      raw.push({ ts: new Date(obj.timestamp), type: "dsl-message", message: obj.payload ?? "" });
-    } else if (obj.type === "damage") {
-      raw.push({ ts: new Date(obj.timestamp), type: "damage", payload: obj.payload as DamagePayload });
-    }
-  }
+/* A search hit to select in the terminal: the query (for decorations) and the entry it is on */
+interface SearchHighlight extends SearchQuery {
+  entry: LogEntry;
+  text: string; // the entry's searched text
+  start: number;
+  length: number;
+}
 
-  raw.sort((a, b) => a.ts.getTime() - b.ts.getTime());
+// Terminal lines one written string takes (before wrapping)
+const rowCount = (line: string) => 1 + (line.match(/\n/g)?.length ?? 0);
 
-  // Dedupe ONLY dsl-message; keep ALL damage rounds (prevents accidental drops)
-  const seen = new Set<string>();
-  const out: LogEntry[] = [];
-  for (const e of raw) {
-    if (e.type === "dsl-message") {
-      const key = `${e.ts.toISOString()}|${e.type}|${e.message}`;
-      if (seen.has(key)) continue;
-      seen.add(key);
-    }
-    out.push(e);
-  }
-  return out;
+/* First entry of the run before `end` that fills `lines` terminal rows (data-only entries write none) */
+function tailStart(list: LogEntry[], end: number, lines: number): number {
+  let i = end;
+  for (let n = 0; i > 0 && n < lines;) if (entryHandler(list[--i].type).render) n++;
+  return i;
 }
 
-/* ANSI → BBCode (unchanged) */
-const ansiColorNames: Record<number, string> = {
-  30: "BLACK", 31: "RED", 32: "GREEN", 33: "YELLOW", 34: "BLUE", 35: "MAGENTA", 36: "CYAN", 37: "WHITE",
-  90: "BROWN", 91: "ORANGE", 92: "LIME GREEN", 93: "YELLOW", 94: "BLUE", 95: "MAGENTA", 96: "CYAN", 97: "WHITE",
-  38: "PURPLE",
-};
-function ansiToBBCode(line: string): string {
-  const esc = /\x1b\[([0-9;]+)m/g;
-  let out = "", last = 0, open: string | null = null;
-  const pick = (codes: number[]): number | string | undefined => {
-    const bright = codes.find((c) => 90 <= c && c <= 97); if (bright !== undefined) return bright;
-    const basic  = codes.find((c) => 30 <= c && c <= 37); if (basic  !== undefined) return basic;
-    const i = codes.findIndex((c, idx) => c === 38 && codes[idx + 1] === 5);
-    if (i !== -1) { const x = codes[i + 2]; if (x === 61) return "PURPLE"; return `XTERM-${x}`; }
-    return undefined;
-  };
-  let m: RegExpExecArray | null;
-  while ((m = esc.exec(line))) {
-    out += line.slice(last, m.index);
-    const codes = m[1].split(";").map(Number);
-    if (codes.includes(0) && open) { out += "[/COLOR]"; open = null; }
-    const col = pick(codes);
-    if (col !== undefined) {
-      const name = typeof col === "number" ? ansiColorNames[col] : col;
-      if (name) {
-        const nextChar = line.charAt(esc.lastIndex);
-        if (nextChar !== "]") { if (open) out += "[/COLOR]"; out += `[COLOR=${name}]`; open = name; }
-      }
+/* Colored gutter block marking which file a line came from (multi-file only) */
+function gutter(e: LogEntry, multiFile: boolean): string {
+  if (!multiFile || !e.sources?.length) return "";
+  const c = e.sources.length > 1 ? SHARED_COLOR : sourceColor(e.sources[0]);
+  return `\x1b[48;5;${c.x}m \x1b[0m `;
+}
+
+const est = (p: DamagePayload) => (p.estimated ? " (estimated)" : "");
+
+/* Terminal output (playback and the popup): ANSI with the per-file gutter */
+const xtermExport = (multiFile: boolean): ExportFormat => ({
+  id: "terminal",
+  message: (m, e) => gutter(e, multiFile) + (m === "" ? " " : m),
+  round: (p, e) => {
+    const lines = buildRoundPerSourceLines(p);
+    return [
+      `${gutter(e, multiFile)}⮞ Damage Round${est(p)}: total=${p.totalDamage}, hits=${p.hits}, misses=${p.misses}`,
+      ...(lines.length ? ["By source:", ...lines.map((l) => `  ${l}`)] : []),
+      "", "",
+    ];
+  },
+  fightSummary: fightSummaryLines,
+  document: (body) => body.join("\n") + "\n",
+});
+
+
+/* Idle-gap compression: piecewise-linear map between real log seconds and playback
+   seconds. Knots sit only at the ends of capped gaps, so a capped gap is crossed at
+   (gap / maxGap)× speed and everything else plays at 1×. `time` stays in real seconds,
+   which keeps fight gap detection on real timestamps. */
+interface TimeMap {
+  real: number[]; // seconds from log start
+  comp: number[]; // matching playback seconds
+}
+function buildTimeMap(entries: LogEntry[], maxGapSec: number): TimeMap {
+  const real = [0], comp = [0];
+  if (!entries.length) return { real, comp };
+  const base = entries[0].ts.getTime();
+  const cap = Math.max(0, maxGapSec);
+  let shift = 0, prev = 0;
+  for (const e of entries) {
+    const t = (e.ts.getTime() - base) / 1000;
+    if (t - prev > cap) {
+      real.push(prev); comp.push(prev - shift);
+      shift += t - prev - cap;
+      real.push(t); comp.push(t - shift);
     }
-    last = esc.lastIndex;
+    prev = t;
+  }
+  real.push(prev); comp.push(prev - shift);
+  return { real, comp };
+}
+function interpolate(xs: number[], ys: number[], x: number): number {
+  if (x <= xs[0]) return ys[0];
+  const last = xs.length - 1;
+  if (x >= xs[last]) return ys[last] + (x - xs[last]);
+  let lo = 0, hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] <= x) lo = mid; else hi = mid;
   }
-  out += line.slice(last);
-  if (open) out += "[/COLOR]";
-  return out;
+  const span = xs[hi] - xs[lo];
+  return span > 0 ? ys[lo] + ((x - xs[lo]) / span) * (ys[hi] - ys[lo]) : ys[hi];
 }
+const realToPlayback = (m: TimeMap, t: number) => interpolate(m.real, m.comp, t);
+const playbackToReal = (m: TimeMap, t: number) => interpolate(m.comp, m.real, t);
+
+const hms = (sec: number) => new Date(Math.max(0, sec) * 1000).toISOString().substr(11, 8);
 
 const LogPlaybackXterm: FC = () => {
   // state
-  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [files, setFiles] = useState<LoadedFile[]>([]);
+  const [loading, setLoading] = useState<{ loaded: number; total: number } | null>(null);
   const [duration, setDuration] = useState<number>(0);
   const [time, setTime] = useState<number>(0);
   const [playing, setPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(1);
+  const [compressIdle, setCompressIdle] = useState<boolean>(false);
+  const [maxGapSec, setMaxGapSec] = useState<number>(5);
+  const [showSearch, setShowSearch] = useState<boolean>(false);
+  const [highlight, setHighlight] = useState<SearchHighlight | null>(null);
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+  const [filterRules, setFilterRules] = useState<FilterRule[]>([]);
+  const [showFights, setShowFights] = useState<boolean>(false);
+  const [segCfg, setSegCfg] = useState<SegmentationConfig>(loadSegmentationConfig);
+  const [fightEdits, setFightEdits] = useState<FightEdits>(NO_EDITS); // manual splits/merges for the loaded log
+  const [combatCfg, setCombatCfg] = useState<CombatParserConfig>(loadCombatConfig);
+  const [showCombatCfg, setShowCombatCfg] = useState<boolean>(false);
+  const [bbcodeCfg, setBBCodeCfg] = useState<BBCodeConfig>(loadBBCodeConfig);
+  const [showBBCodeCfg, setShowBBCodeCfg] = useState<boolean>(false);
+  const [loadId, setLoadId] = useState<number>(0); // bumped per file pick / live connect; rewinds playback
+  const [liveUrl, setLiveUrl] = useState<string>("ws://localhost:8787");
+  const [live, setLive] = useState<{ status: LiveStatus; detail?: string } | null>(null);
+  const [followLive, setFollowLive] = useState<boolean>(true);
+  const [bookmarks, setBookmarks] = useState<{ key: string; list: Bookmark[] }>({ key: "", list: [] });
+  const [showBookmarks, setShowBookmarks] = useState<boolean>(false);
+  const [showDiagnostics, setShowDiagnostics] = useState<boolean>(false);
+  const [showProgress, setShowProgress] = useState<boolean>(false);
+  const [actorMap, setActorMap] = useState<ActorMapping>(loadActorMapping);
+  const [showActors, setShowActors] = useState<boolean>(false);
+  const [showTranscript, setShowTranscript] = useState<boolean>(false);
+  const [redactCfg, setRedactCfg] = useState<RedactionConfig>(loadRedactionConfig);
+  const [showRedaction, setShowRedaction] = useState<boolean>(false);
+  const [showLibrary, setShowLibrary] = useState<boolean>(true);
+  const [library, setLibrary] = useState<LibrarySession[]>([]);
+  const [libUsage, setLibUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [libKey, setLibKey] = useState<string | null>(null); // library session being viewed (null = not stored)
+  const [libCapMb, setLibCapMb] = useState<number>(loadLibraryCapMb);
+  const [libNotice, setLibNotice] = useState<string | null>(null);
+  const [gapSec, setGapSec] = useState<number>(DEFAULT_GAP_SEC);
+  const [markIn, setMarkIn] = useState<number | null>(null);   // export in point, playback seconds
+  const [markOut, setMarkOut] = useState<number | null>(null); // export out point, playback seconds
+
+  const parsed = useMemo(() => mergeSources(files.map((f) => f.entries)), [files]);
+  const entries = useMemo(() => withEstimatedDamage(parsed, combatCfg), [parsed, combatCfg]);
+  const multiFile = files.length > 1;
+  const termFmt = useMemo(() => xtermExport(multiFile), [multiFile]);
+  const isLive = files.some((f) => f.live);
+  // bookmarks are stored per log: its files' content hashes (the URL for a live stream)
+  const logKey = useMemo(() => files.map((f) => f.hash ?? f.name).sort().join("+"), [files]);
+  const streaming = isLive && (live?.status === "open" || live?.status === "connecting");
+  const textOnly = useMemo(() => parsed.length > 0 && !parsed.some((e) => e.type === "damage"), [parsed]);
+  const estimatedRounds = useMemo(
+    () => (textOnly ? entries.filter((e) => e.type === "damage").length : 0),
+    [entries, textOnly]
+  );
 
   // refs
   const termContainer = useRef<HTMLDivElement>(null);
   const term = useRef<Terminal | null>(null);
   const fit = useRef<FitAddon | null>(null);
+  const search = useRef<SearchAddon | null>(null);
   const timer = useRef<number>(0);
+  const worker = useRef<Worker | null>(null);
+  const liveRef = useRef<LiveHandle | null>(null);
   const lastIndexRef = useRef<number>(0);
+  const resumeRef = useRef<number>(0); // playback seconds the next load starts at
+  const posSavedAtRef = useRef<number>(0);
+  const posLoadRef = useRef<number>(0); // loadId the resume position is being saved for
 
   // fight batching
-  const lastDamageTsRef = useRef<number | null>(null);
-  const nextFlushDeadlineRef = useRef<number | null>(null); // absolute ms (log clock of next fight-summary moment)
-  const fightFlushedByTimerRef = useRef<boolean>(false);
-
-  type PerActor = { damage: number; hits: number; misses: number };
-  const byActorRef = useRef<Map<string, PerActor>>(new Map());
-  const totalsRef = useRef<{ damage: number; hits: number; misses: number }>({ damage: 0, hits: 0, misses: 0 });
+  const curFightRef = useRef<number | null>(null); // index into `fights` of the fight being accumulated
+  const fightRef = useRef<FightAccumulator>(newFightAccumulator());
+  const checkpointsRef = useRef<PlaybackCheckpoint[]>([]); // by index; valid while the rendered list and fights stay
+  const rowsRef = useRef<number>(0); // lines written since the terminal was last reset
+  const writtenRef = useRef<{ entry: LogEntry; row: number }[]>([]); // recent entries and the line each starts at
 
   const flushedFinalRef = useRef<boolean>(false);
+  const lastCutoffRef = useRef<number>(-Infinity); // absolute ms of the last rendered cutoff
+  const renderedRef = useRef<LogEntry[] | null>(null); // list the terminal was rendered from
+  const renderedWithRef = useRef<unknown[] | null>(null); // fight split + actor mapping it was rendered with
+
+  // entries after include/exclude rules; drives playback, the popup and exports
+  const shown = useMemo<LogEntry[]>(() => {
+    const pass = compileFilter(filterRules);
+    const hidden = new Set(files.flatMap((f, i) => (f.visible ? [] : [i])));
+    // synthetic entries have no sources and follow whatever is visible
+    const visible = (e: LogEntry) => !hidden.size || !e.sources || e.sources.some((s) => !hidden.has(s));
+    return pass || hidden.size ? entries.filter((e) => visible(e) && (!pass || pass(e))) : entries;
+  }, [entries, filterRules, files]);
+
+  // timestamp index over `shown`: playback finds its cutoff by binary search, not a scan per tick
+  const shownTimes = useMemo(() => Float64Array.from(shown, (e) => e.ts.getTime()), [shown]);
+
+  // export range: an unset in/out point means the start/end of the log
+  const range = useMemo(() => {
+    if (markIn === null && markOut === null) return null;
+    const a = markIn ?? 0, b = markOut ?? duration;
+    return { start: Math.min(a, b), end: Math.max(a, b) };
+  }, [markIn, markOut, duration]);
+
+  // what exports and the popup walk: `shown`, cut to the range
+  const exported = useMemo<LogEntry[]>(() => {
+    if (!range || !shown.length) return shown;
+    const base = entries[0].ts.getTime();
+    return shown.slice(lowerBound(shownTimes, base + range.start * 1000), upperBound(shownTimes, base + range.end * 1000));
+  }, [shown, shownTimes, entries, range]);
+
+  // gaps + damage consistency over the merged log (parse problems come per file from the worker)
+  const analysis = useMemo(() => analyzeEntries(parsed, gapSec), [parsed, gapSec]);
+  const problemCount = useMemo(
+    () => files.reduce((n, f) => {
+      const d = f.diagnostics;
+      return d ? n + d.unparsable + d.badTimestamps + d.payloadIssues + Object.values(d.skipped).reduce((s, k) => s + k, 0) : n;
+    }, 0) + analysis.damage,
+    [files, analysis]
+  );
+
+  const subtypes = useMemo(
+    () => [...new Set(entries.map((e) => e.subtype).filter((s): s is string => !!s))].sort(),
+    [entries]
+  );
+
+  useEffect(() => saveCombatConfig(combatCfg), [combatCfg]);
+  useEffect(() => saveBBCodeConfig(bbcodeCfg), [bbcodeCfg]);
+  useEffect(() => saveSegmentationConfig(segCfg), [segCfg]);
+  useEffect(() => saveActorMapping(actorMap), [actorMap]);
+  useEffect(() => saveRedactionConfig(redactCfg), [redactCfg]);
+
+  // aliases, pets and party tags; applied to every round that is shown or exported
+  const actors = useMemo(() => actorResolver(actorMap), [actorMap]);
+  const actorNames = useMemo(() => knownActors(entries), [entries]);
+
+  // a few colored lines for the BBCode palette preview
+  const bbcodeSample = useMemo(
+    () => exported.filter((e) => e.type === "dsl-message" && e.message?.includes("\x1b[")).slice(0, 8).map((e) => e.message!),
+    [exported]
+  );
+
+  // GMCP vitals timeline (entries are already sorted)
+  // With several files, vitals follow the first visible one (one character at a time)
+  const vitalsSource = Math.max(0, files.findIndex((f) => f.visible));
+  const vitals = useMemo<VitalsSample[]>(
+    () => entries
+      .filter((e) => e.type === "gmcp" && e.charData && (e.sources?.[0] ?? 0) === vitalsSource)
+      .map((e) => ({ ts: e.ts.getTime(), data: e.charData! })),
+    [entries, vitalsSource]
+  );
+
+  // searchable text (dsl-message only)
+  const searchEntries = useMemo(() => shown.filter((e) => e.type === "dsl-message"), [shown]);
+  const searchLines = useMemo<SearchLine[]>(() => {
+    if (!entries.length) return [];
+    const base = entries[0].ts.getTime();
+    return searchEntries
+      .map((e) => ({
+        t: (e.ts.getTime() - base) / 1000,
+        stamp: e.ts.toISOString().substr(11, 8),
+        text: stripAnsi(e.message ?? ""),
+      }));
+  }, [entries, searchEntries]);
+
+  // idle-gap compression (null = play in real time)
+  const timeMap = useMemo<TimeMap | null>(
+    () => (compressIdle && entries.length ? buildTimeMap(entries, maxGapSec) : null),
+    [entries, compressIdle, maxGapSec]
+  );
+
+  // damage rounds → fights; drives playback summaries, exports, markers and the dashboard
+  const fights = useMemo(() => segmentFights(entries, segCfg, fightEdits), [entries, segCfg, fightEdits]);
+  const fightStats = useMemo(() => fights.map((f) => computeFightStats(f, actors)), [fights, actors]);
+  const hasCombatFlag = useMemo(() => combatSpans(entries).length > 0, [entries]);
+  // names → pseudonyms etc. for everything that leaves the viewer (null = off)
+  const redact = useMemo(() => redactor(redactCfg), [redactCfg]);
+  const exportOpts = range
+    ? { fights, actors, redact, rangeLabel: `${hms(range.start)}–${hms(range.end)}` }
+    : { fights, actors, redact };
+
+  // manual splits/merges belong to one log
+  useEffect(() => setFightEdits(NO_EDITS), [logKey]);
+  // experience / money / deaths of the character the vitals follow
+  const progress = useMemo(() => computeProgress(entries, fights, vitalsSource), [entries, fights, vitalsSource]);
+  const copyProgressCsv = () => {
+    if (!entries.length) return;
+    navigator.clipboard.writeText(progressCsv(progress, fights, entries[0].ts.getTime()));
+  };
+
+  const cursorSplit = entries.length ? splitPoint(fights, entries[0].ts.getTime() + time * 1000) : null;
+
+  // scrubber markers: every damage round + fight start/end
+  const markers = useMemo<TimelineMarker[]>(() => {
+    if (!entries.length) return [];
+    const base = entries[0].ts.getTime();
+    const out: TimelineMarker[] = [];
+    fights.forEach((f, i) => {
+      for (const r of f.rounds) {
+        out.push({ t: (r.ts - base) / 1000, kind: "round", label: `Damage round${est(r.payload)}: ${r.payload.totalDamage} dmg` });
+      }
+      out.push({ t: (f.start - base) / 1000, kind: "fight-start", label: `Fight ${i + 1} start (${f.rounds.length} rounds)` });
+      out.push({ t: (f.end - base) / 1000, kind: "fight-end", label: `Fight ${i + 1} end` });
+    });
+    for (const b of bookmarks.list) out.push({ t: (b.ts - base) / 1000, kind: "bookmark", label: `🔖 ${b.title}` });
+    return out;
+  }, [entries, fights, bookmarks]);
+
+  // per-log bookmarks: reload when the log changes, save on every edit
+  useEffect(() => setBookmarks({ key: logKey, list: loadBookmarks(logKey) }), [logKey]);
+  useEffect(() => saveBookmarks(bookmarks.key, bookmarks.list), [bookmarks]);
+
+  const setBookmarkList = (list: Bookmark[]) => setBookmarks({ key: logKey, list: sortBookmarks(list) });
+
+  const addBookmark = (title: string, note: string) => {
+    if (!entries.length) return;
+    setBookmarkList([...bookmarks.list, { id: newBookmarkId(), ts: entries[0].ts.getTime() + time * 1000, title, note }]);
+  };
+
+  // jump to the previous/next bookmark from the playback position
+  const jumpBookmark = (dir: -1 | 1) => {
+    if (!entries.length) return;
+    const base = entries[0].ts.getTime();
+    const now = base + time * 1000;
+    const list = bookmarks.list;
+    const b = dir < 0
+      ? [...list].reverse().find((x) => x.ts < now - 500)
+      : list.find((x) => x.ts > now + 500);
+    if (!b) return;
+    setPlaying(false);
+    setFollowLive(false);
+    setTime((b.ts - base) / 1000);
+  };
+
+  const exportBookmarks = () => {
+    const sidecar = toSidecar(logKey, files.map((f) => f.name), bookmarks.list);
+    const name = (files.length === 1 ? files[0].name.replace(/\.[^.]*$/, "") : "dsl-log") + ".bookmarks.json";
+    downloadFile(name, JSON.stringify(sidecar, null, 2), "application/json");
+  };
+
+  const importBookmarks = async (file: File) => {
+    try {
+      const sidecar = parseSidecar(await file.text());
+      if (sidecar.log !== logKey && !window.confirm(
+        `These bookmarks were made on a different log (${sidecar.files.join(", ") || "unknown"}). Import anyway?`
+      )) return;
+      setBookmarkList(mergeBookmarks(bookmarks.list, sidecar.bookmarks));
+    } catch (err) {
+      window.alert(`Could not import bookmarks: ${(err as Error).message}`);
+    }
+  };
+
+  const exportActors = () =>
+    downloadFile("dsl-log-viewer.actors.json", JSON.stringify(actorMap, null, 2), "application/json");
+
+  const importActors = async (file: File) => {
+    try {
+      setActorMap(parseActorMapping(await file.text()));
+    } catch (err) {
+      window.alert(`Could not import the actor mapping: ${(err as Error).message}`);
+    }
+  };
+
+  const exportRedaction = () =>
+    downloadFile("dsl-log-viewer.redaction.json", JSON.stringify(redactCfg, null, 2), "application/json");
+
+  const importRedaction = async (file: File) => {
+    try {
+      setRedactCfg(parseRedactionConfig(await file.text()));
+    } catch (err) {
+      window.alert(`Could not import the redaction rules: ${(err as Error).message}`);
+    }
+  };
+
+  // log library (IndexedDB); failures only show a notice, the viewer works without it
+  const refreshLibrary = () =>
+    Promise.all([listSessions(), storageEstimate()])
+      .then(([list, usage]) => { setLibrary(list); setLibUsage(usage); })
+      .catch((err) => setLibNotice(`Library unavailable: ${(err as Error).message}`));
+
+  const libraryCall = (p: Promise<unknown>) =>
+    p.then(refreshLibrary).catch((err) => setLibNotice(`Library error: ${(err as Error).message}`));
+
+  useEffect(() => { refreshLibrary(); }, []);
+  useEffect(() => saveLibraryCapMb(libCapMb), [libCapMb]);
+
+  const changeCap = (mb: number) => {
+    const stored = library.reduce((n, x) => n + x.size, 0);
+    if (stored > mb * MB && !window.confirm(`The library holds ${Math.ceil(stored / MB)} MB. Delete the least recently opened sessions to fit ${mb} MB?`)) return;
+    setLibCapMb(mb);
+    libraryCall(enforceCap(mb * MB, libKey ?? undefined).then((n) => setLibNotice(n ? `Removed ${n} old sessions to fit the cap` : null)));
+  };
+
+  const openSession = (s: LibrarySession) =>
+    loadSessionFiles(s.key)
+      .then((stored) => loadFiles(stored, s))
+      .catch((err) => setLibNotice(`Could not open ${s.files.map((f) => f.name).join(", ")}: ${(err as Error).message}`));
+
+  const removeSession = (s: LibrarySession) => {
+    if (s.key === libKey) setLibKey(null);
+    libraryCall(deleteSession(s.key));
+  };
+
+  // stats shown in the library follow the parsed log (segmentation, estimated damage)
+  useEffect(() => {
+    if (!libKey || libKey !== logKey || !entries.length) return;
+    updateSession(libKey, { summary: summarizeLog(entries, fights) })
+      .then(listSessions)
+      .then(setLibrary)
+      .catch((err) => setLibNotice(`Library error: ${(err as Error).message}`));
+  }, [libKey, logKey, entries, fights]);
+
+  // resume position, throttled while playing
+  useEffect(() => {
+    if (!libKey || libKey !== logKey) return;
+    // the first render of a new log still has the previous log's time
+    if (posLoadRef.current !== loadId) { posLoadRef.current = loadId; return; }
+    const key = libKey, position = time;
+    const id = window.setTimeout(() => {
+      posSavedAtRef.current = Date.now();
+      updateSession(key, { position }).catch(() => { /* best effort */ });
+    }, Math.max(0, posSavedAtRef.current + POSITION_SAVE_MS - Date.now()));
+    return () => clearTimeout(id);
+  }, [libKey, logKey, loadId, time]);
 
   // file load
+  // Files are streamed and parsed off the main thread; a new pick cancels the previous parse
   const onFile = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => setEntries(parseLog(reader.result as string));
-    reader.readAsText(file);
+    const picked = [...(e.target.files ?? [])];
+    if (picked.length) loadFiles(picked);
   };
 
-  // copy plain (round headers + per-round per-source lines)
-  const copyPlainText = () => {
-    if (!entries.length) return;
-    const ansi = /\x1b\[[0-9;]*[A-Za-z]/g;
-    const chunks: string[] = [];
-    for (const e of entries) {
-      if (e.type === "dsl-message") {
-        chunks.push((e.message ?? "").replace(ansi, "") || " ");
-      } else if (e.type === "damage" && e.payload) {
-        const p = e.payload;
-        chunks.push(`⮞ Damage Round: total=${p.totalDamage}, hits=${p.hits}, misses=${p.misses}`);
-        const lines = buildRoundPerSourceLines(p);
-        if (lines.length) {
-          chunks.push("By source:");
-          lines.forEach(l => chunks.push(`  ${l}`));
+  /* Parse `picked`; a fresh pick is added to the library, a reopened session resumes where it was left */
+  const loadFiles = (picked: File[], from?: LibrarySession) => {
+    worker.current?.terminate();
+    liveRef.current?.close();
+    liveRef.current = null;
+    setLive(null);
+    setLibKey(null);
+    setLibNotice(null);
+    const w = new Worker(new URL("./parseLog.worker.ts", import.meta.url), { type: "module" });
+    worker.current = w;
+    setLoading({ loaded: 0, total: picked.reduce((s, f) => s + f.size, 0) });
+    w.onmessage = (ev: MessageEvent<ParseResponse>) => {
+      const msg = ev.data;
+      if (msg.kind === "progress") {
+        setLoading({ loaded: msg.loaded, total: msg.total });
+        return;
+      }
+      if (msg.kind === "done") {
+        setFiles(msg.results.map((entries, i) => ({
+          name: picked[i].name, entries, visible: true, hash: msg.hashes[i], diagnostics: msg.diagnostics[i],
+        })));
+        if (from) {
+          resumeRef.current = from.position;
+          setLibKey(from.key);
+          setShowLibrary(false);
+          libraryCall(updateSession(from.key, { openedAt: Date.now() }));
+        } else {
+          const key = [...msg.hashes].sort().join("+"); // = logKey
+          libraryCall(addSession(key, picked, msg.hashes, libCapMb * MB).then((stored) => {
+            setLibKey(stored ? key : null);
+            if (!stored) setLibNotice(`Not saved: the log is larger than the ${libCapMb} MB cap`);
+          }));
         }
-        chunks.push(""); // blank line
-        chunks.push("");
+        setLoadId((n) => n + 1);
+      } else {
+        term.current?.writeln(`⮞ Failed to read log: ${msg.message}`);
       }
-    }
-    navigator.clipboard.writeText(chunks.join("\n"));
+      setLoading(null);
+      w.terminate();
+      if (worker.current === w) worker.current = null;
+    };
+    w.postMessage({ files: picked } satisfies ParseRequest);
+  };
+
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  // live tail: entries stream in batches and go through the same append/dedupe as a file parse
+  const startLive = () => {
+    const url = liveUrl.trim();
+    if (!url) return;
+    worker.current?.terminate();
+    liveRef.current?.close();
+    setLibKey(null); // live streams aren't stored
+    setFiles([{ name: url, entries: [], visible: true, live: true }]);
+    setLoadId((n) => n + 1);
+    setFollowLive(true);
+    liveRef.current = connectLive(url, {
+      onEntries: (batch) =>
+        setFiles((fs) => fs.map((f) => (f.live ? { ...f, entries: appendEntries(f.entries, batch) } : f))),
+      onStatus: (status, detail) => setLive({ status, detail }),
+    });
+  };
+
+  const stopLive = () => {
+    liveRef.current?.close();
+    liveRef.current = null;
+    setLive({ status: "closed" });
+  };
+
+  useEffect(() => () => liveRef.current?.close(), []);
+
+
+  // clipboard / download exports share one renderer (see exporters.ts)
+  const copyPlainText = () => {
+    if (!entries.length) return;
+    navigator.clipboard.writeText(renderExport(exported, PLAIN_TEXT, exportOpts));
+  };
+
+  const copyAsDiscord = () => {
+    if (!entries.length) return;
+    navigator.clipboard.writeText(renderExport(exported, DISCORD, exportOpts));
+  };
+
+  const downloadHtml = () => {
+    if (!entries.length) return;
+    const first = exported[0] ?? entries[0];
+    const stamp = first.ts.toISOString().slice(0, 19).replace(/[T:]/g, "-");
+    const name = files.length === 1 ? files[0].name : `DSL log ${stamp}`;
+    const full = range ? `${name} (${exportOpts.rangeLabel})` : name;
+    const title = redact ? redact.text(full) : full;
+    downloadFile(`dsl-log-${stamp}.html`, renderExport(exported, HTML, { ...exportOpts, title }), "text/html");
   };
 
   // init xterm
   useEffect(() => {
-    term.current = new Terminal({ convertEol: true } as any);
+    term.current = new Terminal({ convertEol: true, allowProposedApi: true });
     fit.current = new FitAddon();
     term.current.loadAddon(fit.current);
+    search.current = new SearchAddon();
+    term.current.loadAddon(search.current);
     const container = termContainer.current;
     if (container) {
       term.current.open(container);
@@ -211,251 +646,265 @@ const LogPlaybackXterm: FC = () => {
       return () => {
         window.removeEventListener("resize", onResize);
         io.disconnect(); ro.disconnect();
-        term.current?.dispose(); term.current = null; fit.current = null;
+        term.current?.dispose(); term.current = null; fit.current = null; search.current = null;
       };
     }
-    return () => { term.current?.dispose(); term.current = null; fit.current = null; };
+    return () => { term.current?.dispose(); term.current = null; fit.current = null; search.current = null; };
   }, []);
 
-  // reset on new entries
+  // duration follows the data (it grows while live)
   useEffect(() => {
     if (!entries.length) return;
     const start = entries[0].ts.getTime();
     const end = entries[entries.length - 1].ts.getTime();
     setDuration((end - start) / 1000);
-    setTime(0);
+  }, [entries]);
+
+  // reset on a newly loaded log or live session
+  useEffect(() => {
+    setTime(resumeRef.current);
+    resumeRef.current = 0;
     setPlaying(false);
-    lastIndexRef.current = 0;
+    setMarkIn(null);
+    setMarkOut(null);
     term.current?.clear();
-
-    // reset fight state
-    lastDamageTsRef.current = null;
-    nextFlushDeadlineRef.current = null;
-    fightFlushedByTimerRef.current = false;
-    byActorRef.current.clear();
-    totalsRef.current = { damage: 0, hits: 0, misses: 0 };
-    flushedFinalRef.current = false;
+    resetPlaybackState();
+    checkpointsRef.current = [];
 
     safeFit(fit.current, term.current, termContainer.current);
-  }, [entries]);
+  }, [loadId]);
 
-  // playback clock
+  // follow live: keep the cursor on the newest entry; otherwise new data just buffers
+  useEffect(() => {
+    if (isLive && followLive) setTime(duration);
+  }, [isLive, followLive, duration]);
+
+  // playback clock: wall time × speed, advanced on the (optionally compressed) playback axis
   useEffect(() => {
     if (playing) {
       let last = performance.now();
       timer.current = window.setInterval(() => {
         const now = performance.now();
-        setTime((t) => Math.min(t + (now - last) / 1000, duration));
+        const step = ((now - last) / 1000) * speed;
+        setTime((t) => Math.min(timeMap ? playbackToReal(timeMap, realToPlayback(timeMap, t) + step) : t + step, duration));
         last = now;
       }, 100);
     } else {
       clearInterval(timer.current);
     }
     return () => clearInterval(timer.current);
-  }, [playing, duration]);
-
-  /* Build per-round per-source lines */
-  function buildRoundPerSourceLines(p: DamagePayload): string[] {
-    const per = new Map<string, { damage: number; hits: number; misses: number }>();
-    const hasBySource = !!(p.bySource && p.bySource.length);
-
-    if (hasBySource) {
-      for (const row of p.bySource!) {
-        const name = normalizeActor(row.actor || "");
-        const cur = per.get(name) ?? { damage: 0, hits: 0, misses: 0 };
-        cur.damage += row.totalAsSource || 0;
-        cur.hits += row.countAsSource || 0;
-        per.set(name, cur);
-      }
-    }
-
-    if (p.events && p.events.length) {
-      for (const ev of p.events) {
-        const name = normalizeActor(ev.source || "");
-        const cur = per.get(name) ?? { damage: 0, hits: 0, misses: 0 };
-        if (!hasBySource) {
-          if ((ev.amount ?? 0) > 0) { cur.damage += ev.amount || 0; cur.hits += 1; }
-        }
-        if ((ev.amount ?? 0) === 0) { cur.misses += 1; }
-        per.set(name, cur);
-      }
-    }
-
-    const arr = [...per.entries()]
-      .sort((a, b) => b[1].damage - a[1].damage || b[1].hits - a[1].hits)
-      .map(([actor, agg]) => `${actor}: ${fmt1(agg.damage)} dmg, ${agg.hits} hits, ${agg.misses} misses`);
-    return arr;
-  }
-
-  /* Fight batching helpers (with per-source misses) */
-  const addRoundToActors = (p: DamagePayload) => {
-    const map = byActorRef.current;
-    const hasBySource = !!(p.bySource && p.bySource.length);
-
-    if (hasBySource) {
-      for (const row of p.bySource!) {
-        const name = normalizeActor(row.actor || "");
-        const cur = map.get(name) ?? { damage: 0, hits: 0, misses: 0 };
-        cur.damage += row.totalAsSource || 0;
-        cur.hits += row.countAsSource || 0;
-        map.set(name, cur);
-      }
-    } else if (p.events && p.events.length) {
-      for (const ev of p.events) {
-        const name = normalizeActor(ev.source || "");
-        const cur = map.get(name) ?? { damage: 0, hits: 0, misses: 0 };
-        if (ev.amount > 0) { cur.damage += ev.amount || 0; cur.hits += 1; }
-        map.set(name, cur);
-      }
-    }
-
-    if (p.events && p.events.length) {
-      for (const ev of p.events) {
-        if ((ev.amount ?? 0) === 0) {
-          const name = normalizeActor(ev.source || "");
-          const cur = map.get(name) ?? { damage: 0, hits: 0, misses: 0 };
-          cur.misses += 1;
-          map.set(name, cur);
-        }
-      }
-    }
-  };
-
-  const addRoundToTotals = (p: DamagePayload) => {
-    // NOTE: Totals are derived from the same basis we use per-actor to avoid mismatches.
-    const t = totalsRef.current;
+  }, [playing, duration, speed, timeMap]);
 
-    if (p.bySource?.length) {
-      t.damage += p.bySource.reduce((s, r) => s + (r.totalAsSource || 0), 0);
-      t.hits   += p.bySource.reduce((s, r) => s + (r.countAsSource || 0), 0);
-    } else if (p.events?.length) {
-      for (const ev of p.events) {
-        if ((ev.amount ?? 0) > 0) { t.damage += ev.amount || 0; t.hits += 1; }
-      }
-    } else {
-      // Fallback to payload rollups (rare)
-      t.damage += p.totalDamage || 0;
-      t.hits   += p.hits || 0;
-    }
-
-    if (p.events?.length) {
-      t.misses += p.events.filter(e => (e.amount ?? 0) === 0).length;
-    } else if (typeof p.misses === "number") {
-      t.misses += p.misses;
-    }
+  /* Rewind the render cursor and every fight accumulator to the start of the log */
+  const resetPlaybackState = () => {
+    lastIndexRef.current = 0;
+    lastCutoffRef.current = -Infinity;
+    renderedRef.current = null;
+    curFightRef.current = null;
+    fightRef.current = newFightAccumulator();
+    flushedFinalRef.current = false;
   };
 
-  const flushFightSummary = (label = "— Fight summary —") => {
-    const map = byActorRef.current;
-    const t = totalsRef.current;
-    if (map.size === 0 && t.damage === 0 && t.hits === 0 && t.misses === 0) return;
-
-    term.current?.writeln(`${label} totalDamage=${fmt1(t.damage)}, hits=${t.hits}, misses=${t.misses}`);
-    if (map.size > 0) {
-      const rows = [...map.entries()].sort((a, b) => b[1].damage - a[1].damage);
-      for (const [actor, agg] of rows) {
-        term.current?.writeln(
-          `  ${actor}: ${fmt1(agg.damage)} dmg, ${agg.hits} hits, ${agg.misses} misses`
-        );
-      }
-    }
-    term.current?.writeln("");
+  const flushFightSummary = (write: (line: string) => void, label = "— Fight summary —") => {
+    if (hasFightData(fightRef.current)) fightSummaryLines(fightRef.current, label).forEach(write);
 
     // reset fight
-    map.clear();
-    totalsRef.current = { damage: 0, hits: 0, misses: 0 };
-    lastDamageTsRef.current = null;
-    nextFlushDeadlineRef.current = null;
-    fightFlushedByTimerRef.current = true;
+    fightRef.current = newFightAccumulator();
+    curFightRef.current = null;
   };
 
   /* Playback render (incl. per-round per-source lines + time-gap flush)
      IMPORTANT for seeking/skips:
      - We process ALL entries between lastIndexRef and the new cutoff, so jumping forward
        (via » or dragging) counts every damage round crossed.
-     - If the jump crosses a 5+ min gap *without* hitting the next damage line yet, the
-       time-based flush below fires and prints the fight summary on time. */
+     - Fights come from `fights` (gap, GMCP or hand-edited). A summary is due once the log
+       clock passes the fight's flushAt, or when a round of the next fight arrives. It is
+       emitted before the first entry past that point, or after the loop when the cutoff
+       alone crosses it, so the output does not depend on tick size or jump distance.
+     - Seeking backward or jumping far ahead rebuilds the terminal: only the entries whose
+       lines fit the scrollback (plus rows) before the cutoff are written, after replaying
+       from the last checkpoint before them. Checkpoints of the fight state are saved every
+       CHECKPOINT_EVERY entries, so a seek costs at most that plus the tail. Changing the
+       filter rules, fight split or actor mapping drops them. Live appends that leave the
+       rendered prefix alone just continue from the cursor.
+     - While a live stream is open the end of the data is not the end of the fight,
+       so the end-of-log summary waits until the stream closes.
+     - The clock's base stays on the unfiltered log so filtering never shifts `time`. */
   useEffect(() => {
     if (!entries.length) return;
 
     const base = entries[0].ts.getTime();
     const cutoff = base + time * 1000;
-    const nextIdx = entries.findIndex((e) => e.ts.getTime() > cutoff);
-    const end = nextIdx === -1 ? entries.length : nextIdx;
+    const end = upperBound(shownTimes, cutoff);
+
+    const appended = renderedRef.current !== shown && extendsRendered(renderedRef.current, shown, lastIndexRef.current);
+    const renderedWith = [segCfg, fightEdits, actors];
+    const resegmented = renderedWithRef.current !== null && renderedWith.some((v, i) => v !== renderedWithRef.current![i]);
+    const changed = (renderedRef.current !== shown && !appended) || resegmented;
+    if (changed) checkpointsRef.current = [];
+
+    // lines before `from` would scroll out of the terminal anyway
+    const keep = term.current ? (term.current.options.scrollback ?? 1000) + term.current.rows : Infinity;
+    const from = tailStart(shown, end, keep);
+    let buffered: string[] | null = null;
+    if (changed || cutoff < lastCutoffRef.current || from > lastIndexRef.current) {
+      const cps = checkpointsRef.current;
+      let k = cps.length - 1;
+      while (k >= 0 && cps[k].index > from) k--;
+      const cp = cps[k];
+      // rewind to the checkpoint unless the cursor is already closer (jumping ahead)
+      if (changed || cutoff < lastCutoffRef.current || (cp && cp.index > lastIndexRef.current)) {
+        resetPlaybackState();
+        if (cp) {
+          lastIndexRef.current = cp.index;
+          curFightRef.current = cp.fight;
+          fightRef.current = cloneFightAccumulator(cp.acc);
+        }
+      }
+      term.current?.reset();
+      buffered = [];
+    }
+    renderedRef.current = shown;
+    renderedWithRef.current = renderedWith;
+    const flushAt = () => (curFightRef.current !== null ? fights[curFightRef.current]?.flushAt ?? Infinity : null);
+    let i = lastIndexRef.current;
+    let rows = buffered ? 0 : rowsRef.current;
+    const written = buffered ? [] : writtenRef.current;
+    const write = (line: string) => {
+      if (!buffered) term.current?.writeln(line);
+      else if (i >= from) buffered.push(line);
+      else return;
+      rows += rowCount(line);
+    };
 
     // 1) Emit new entries up to cutoff
-    for (let i = lastIndexRef.current; i < end; i++) {
-      const entry = entries[i];
-
-      if (entry.type === "dsl-message") {
-        const line = entry.message ?? "";
-        term.current?.writeln(line.length > 0 ? line : " ");
-        continue;
+    for (; i < end; i++) {
+      const cps = checkpointsRef.current;
+      if (i > 0 && i % CHECKPOINT_EVERY === 0 && i > (cps.length ? cps[cps.length - 1].index : 0)) {
+        cps.push({ index: i, fight: curFightRef.current, acc: cloneFightAccumulator(fightRef.current) });
       }
+      const entry = shown[i];
+      const curTs = entry.ts.getTime();
 
-      if (entry.type === "damage" && entry.payload) {
-        const p = entry.payload;
-        const curTs = entry.ts.getTime();
-
-        // If gap ≥ 5 min since previous damage, flush previous fight first
-        if (
-          lastDamageTsRef.current !== null &&
-          curTs - lastDamageTsRef.current >= FIVE_MIN_MS &&
-          (byActorRef.current.size > 0 || totalsRef.current.damage > 0 || totalsRef.current.hits > 0 || totalsRef.current.misses > 0)
-        ) {
-          flushFightSummary("— Fight summary —");
-        }
-
-        // Round header
-        term.current?.writeln(`⮞ Damage Round: total=${p.totalDamage}, hits=${p.hits}, misses=${p.misses}`);
+      // Fight over before this entry → summary goes first
+      const due = flushAt();
+      if (due !== null && curTs > due) {
+        flushFightSummary(write, "— Fight summary —");
+      }
 
-        // Per-round per-source lines
-        const lines = buildRoundPerSourceLines(p);
-        if (lines.length) {
-          term.current?.writeln("By source:");
-          lines.forEach(l => term.current?.writeln(`  ${l}`));
-        }
+      // Lines come from the entry's type handler (see entryTypes.ts)
+      if (!buffered || i >= from) written.push({ entry, row: rows });
+      const round = entryDamage(entry);
+      if (!round) {
+        renderEntry(entry, termFmt).forEach(write);
+        continue;
+      }
 
-        // Accumulate for fight
-        addRoundToActors(p);
-        addRoundToTotals(p);
+      // Round of the next fight → flush the previous one first
+      const k = fightIndexAt(fights, curTs);
+      if (curFightRef.current !== null && k !== curFightRef.current) {
+        flushFightSummary(write, "— Fight summary —");
+      }
 
-        // Timers
-        lastDamageTsRef.current = curTs;
-        nextFlushDeadlineRef.current = curTs + FIVE_MIN_MS;
-        fightFlushedByTimerRef.current = false;
+      // Round header + per-source lines, under the actor mapping
+      const p = actors.payload(round);
+      renderEntry(p === round ? entry : { ...entry, payload: p }, termFmt).forEach(write);
 
-        // Spacing
-        term.current?.writeln("");
-        term.current?.writeln("");
-      }
+      // Accumulate for fight
+      addRoundToFight(fightRef.current, p);
+      curFightRef.current = k;
     }
 
     lastIndexRef.current = end;
+    lastCutoffRef.current = cutoff;
 
-    // 2) Time-based gap flush (no new entries required)
-    if (
-      nextFlushDeadlineRef.current !== null &&
-      cutoff >= nextFlushDeadlineRef.current &&
-      !fightFlushedByTimerRef.current &&
-      (byActorRef.current.size > 0 || totalsRef.current.damage > 0 || totalsRef.current.hits > 0 || totalsRef.current.misses > 0)
-    ) {
-      flushFightSummary("— Fight summary —");
+    // 2) Time-based flush once the fight is over (no new entries required)
+    const due = flushAt();
+    if (due !== null && cutoff >= due) {
+      flushFightSummary(write, "— Fight summary —");
     }
 
     // 3) End-of-log flush
-    if (end === entries.length && !flushedFinalRef.current) {
-      if (byActorRef.current.size > 0 || totalsRef.current.damage > 0 || totalsRef.current.hits > 0 || totalsRef.current.misses > 0) {
-        flushFightSummary("— Fight summary —");
+    if (end === shown.length && !flushedFinalRef.current && !streaming) {
+      if (hasFightData(fightRef.current)) {
+        flushFightSummary(write, "— Fight summary —");
       }
       flushedFinalRef.current = true;
     }
-    if (end !== entries.length) {
+    if (end !== shown.length) {
       flushedFinalRef.current = false;
     }
-  }, [time, entries]);
 
-  // popup viewer (round headers + per-round per-source lines)
+    // Rebuilt after a seek: write the visible tail in one go
+    if (buffered && term.current) {
+      const tail = buffered.length > keep ? buffered.slice(buffered.length - keep) : buffered;
+      term.current.write(tail.map((l) => l + "\r\n").join(""));
+      const dropped = buffered.slice(0, buffered.length - tail.length).reduce((n, l) => n + rowCount(l), 0);
+      rows -= dropped;
+      for (const w of written) w.row -= dropped;
+    }
+    // enough to find a search hit anywhere in the scrollback
+    const stale = written.findIndex((w) => w.row >= rows - keep);
+    if (stale > 0) written.splice(0, stale);
+    rowsRef.current = rows;
+    writtenRef.current = written;
+  }, [time, entries, shown, shownTimes, termFmt, streaming, fights, segCfg, fightEdits, actors]);
+
+  // Highlight the selected search hit once the seek above has been written.
+  // xterm parses writes asynchronously, so wait on an empty write, then count lines up
+  // from the cursor to the row the hit's entry was written at and select the match there.
+  // The search addon only paints the other matches (its own pick may be another line).
+  useEffect(() => {
+    const t = term.current, s = search.current;
+    if (!t || !s) return;
+    s.clearDecorations();
+    t.clearSelection();
+    if (!highlight) return;
+    t.write("", () => {
+      s.findPrevious(highlight.query, {
+        regex: highlight.regex,
+        caseSensitive: highlight.caseSensitive,
+        decorations: {
+          matchBackground: "#5a4a00",
+          matchOverviewRuler: "#d80",
+          activeMatchBackground: "#5a4a00",
+          activeMatchColorOverviewRuler: "#d80",
+        },
+      });
+      t.clearSelection();
+      const written = writtenRef.current;
+      let k = written.length - 1;
+      while (k >= 0 && written[k].entry !== highlight.entry) k--;
+      if (k < 0) return;
+
+      // first row of the hit's line: walk up over wrapped rows
+      const buf = t.buffer.active;
+      let y = buf.baseY + buf.cursorY;
+      for (let n = rowsRef.current - written[k].row; n > 0; n--) {
+        y--;
+        while (y > 0 && buf.getLine(y)?.isWrapped) y--;
+        if (y < 0) return;
+      }
+      let text = "";
+      for (let r = y; r === y || buf.getLine(r)?.isWrapped; r++) text += buf.getLine(r)?.translateToString() ?? "";
+      const at = text.indexOf(highlight.text.slice(0, highlight.start + highlight.length));
+      if (at < 0) {
+        t.selectLines(y, y);
+      } else {
+        const col = at + highlight.start;
+        t.select(col % t.cols, y + Math.floor(col / t.cols), highlight.length);
+      }
+      if (y < buf.viewportY || y >= buf.viewportY + t.rows) t.scrollToLine(Math.max(0, y - Math.floor(t.rows / 2)));
+    });
+  }, [highlight]);
+
+  const onSearchSelect = (hit: SearchHit, q: SearchQuery) => {
+    setPlaying(false);
+    setTime(hit.t);
+    setHighlight({ ...q, entry: searchEntries[hit.line], text: searchLines[hit.line].text, start: hit.start, length: hit.length });
+  };
+
+  // popup viewer (round headers, per-source lines and fight summaries; honours the export range)
   const showWholeLog = () => {
     if (!entries.length) return;
     const w = window.open("", "_blank", "width=800,height=600,scrollbars=yes,resizable=yes");
@@ -469,7 +918,7 @@ const LogPlaybackXterm: FC = () => {
     Object.assign(container.style, { width: "100%", height: "100vh" });
     w.document.body.appendChild(container);
 
-    const t2 = new Terminal({ convertEol: true } as any);
+    const t2 = new Terminal({ convertEol: true });
     const f2 = new FitAddon();
     t2.loadAddon(f2);
     t2.open(container);
@@ -480,55 +929,94 @@ const LogPlaybackXterm: FC = () => {
     ro.observe(container);
     w.addEventListener("beforeunload", () => ro.disconnect());
 
-    entries.forEach((e) => {
-      if (e.type === "dsl-message") {
-        const line = e.message ?? "";
-        t2.writeln(line === "" ? " " : line);
-      } else if (e.type === "damage" && e.payload) {
-        const p = e.payload;
-        t2.writeln(`⮞ Damage Round: total=${p.totalDamage}, hits=${p.hits}, misses=${p.misses}`);
-        const lines = buildRoundPerSourceLines(p);
-        if (lines.length) {
-          t2.writeln("By source:");
-          lines.forEach(l => t2.writeln(`  ${l}`));
-        }
-        t2.writeln("");
-        t2.writeln("");
-      }
-    });
+    t2.write(renderExport(exported, termFmt, exportOpts));
   };
 
   // copy as BBCode (round headers + per-round lines)
   const copyAsBBCode = () => {
     if (!entries.length) return;
-    const parts: string[] = [];
-    for (const e of entries) {
-      if (e.type === "dsl-message") {
-        parts.push(ansiToBBCode(e.message ?? ""));
-      } else if (e.type === "damage" && e.payload) {
-        const p = e.payload;
-        parts.push(`[B]Damage Round:[/B] total=${p.totalDamage}, hits=${p.hits}, misses=${p.misses}`);
-        const lines = buildRoundPerSourceLines(p);
-        if (lines.length) {
-          parts.push("[B]By source:[/B]");
-          lines.forEach(l => parts.push(`  ${l}`));
-        }
-        parts.push("");
-        parts.push("");
-      }
-    }
-    navigator.clipboard.writeText(parts.join("\n"));
+    navigator.clipboard.writeText(renderExport(exported, bbcodeFormat(bbcodeCfg), exportOpts));
   };
 
   return (
     <div style={{ height: "100vh", display: "flex", flexDirection: "column" }}>
       <div style={{ padding: 8, background: "#222", color: "#fff" }}>
-        <input type="file" accept=".log,.txt" onChange={onFile} />
+        <input type="file" accept=".log,.txt" multiple onChange={onFile} />
+        <button onClick={() => setShowLibrary((v) => !v)} title="Logs opened before, kept in this browser" style={{ marginRight: 8 }}>
+          {showLibrary ? "Hide Library" : `📚 Library (${library.length})`}
+        </button>
+        <span style={{ marginRight: 8 }} title="Stream JSONL lines from a WebSocket (see scripts/live-relay.mjs)">
+          <input value={liveUrl} onChange={(e) => setLiveUrl(e.target.value)} style={{ width: 160 }} />
+          {streaming
+            ? <button onClick={stopLive}>Disconnect</button>
+            : <button onClick={startLive}>Go Live</button>}
+          {live && (
+            <span style={{ marginLeft: 4, color: live.status === "open" ? "#8c8" : live.status === "error" ? "#f66" : "#aaa" }}>
+              ● {live.status}{live.detail ? `: ${live.detail}` : ""}
+            </span>
+          )}
+          {isLive && (
+            <label style={{ marginLeft: 6 }} title="Snap to the newest entry; turn off to scroll back while data keeps buffering">
+              <input
+                type="checkbox" checked={followLive}
+                onChange={(e) => { setFollowLive(e.target.checked); if (e.target.checked) setPlaying(false); }}
+              />
+              Follow live
+            </label>
+          )}
+        </span>
+        {loading && (
+          <span style={{ marginRight: 8, color: "#aaa" }}>
+            Parsing… {loading.total > 0 ? Math.floor((loading.loaded / loading.total) * 100) : 0}%
+            <progress value={loading.loaded} max={Math.max(loading.total, 1)} style={{ marginLeft: 6, verticalAlign: "middle" }} />
+          </span>
+        )}
+        {multiFile && files.map((f, i) => (
+          <label key={i} style={{ marginRight: 8 }} title={`Show lines from ${f.name}`}>
+            <input
+              type="checkbox" checked={f.visible}
+              onChange={(e) => setFiles(files.map((x, j) => (j === i ? { ...x, visible: e.target.checked } : x)))}
+            />
+            <span style={{ display: "inline-block", width: 10, height: 10, marginRight: 4, background: sourceColor(i).css }} />
+            {f.name}
+          </label>
+        ))}
         {entries.length > 0 && (
           <>
             <button onClick={showWholeLog}>Show Whole Log</button>
             <button onClick={copyAsBBCode}>Copy BBCode (Forum Color)</button>
+            <button onClick={() => setShowBBCodeCfg((v) => !v)} title="BBCode dialect and palette">⚙</button>
             <button onClick={copyPlainText}>Copy Log (Plain Text)</button>
+            <button onClick={copyAsDiscord} title="```ansi code block with Discord's color set">Copy for Discord (ANSI)</button>
+            <button onClick={downloadHtml}>Download HTML</button>
+            <button onClick={() => setShowRedaction((v) => !v)} title="Pseudonyms, regex rules and dropped tells for exports">
+              {showRedaction ? "Hide Redaction" : "Redaction"}{redact && " (on)"}
+            </button>
+            <span style={{ marginLeft: 8 }} title="Limit exports and the popup viewer to a time range">
+              <button onClick={() => setMarkIn(time)} title="Set the range start at the playback position">[ In</button>
+              <button onClick={() => setMarkOut(time)} title="Set the range end at the playback position">Out ]</button>
+              <select
+                value=""
+                onChange={(e) => {
+                  const f = fights[Number(e.target.value)];
+                  if (!f) return;
+                  const base = entries[0].ts.getTime();
+                  setMarkIn((f.start - base) / 1000);
+                  setMarkOut(Math.min(duration, (f.end + FIGHT_TAIL_MS - base) / 1000));
+                }}
+              >
+                <option value="" disabled>Range from fight…</option>
+                {fights.map((f, i) => (
+                  <option key={i} value={i}>Fight #{i + 1} ({hms((f.start - entries[0].ts.getTime()) / 1000)})</option>
+                ))}
+              </select>
+              {range && (
+                <span style={{ marginLeft: 4, color: "#aaa" }}>
+                  {exportOpts.rangeLabel} ({exported.length} entries)
+                  <button onClick={() => { setMarkIn(null); setMarkOut(null); }} title="Export the whole log">✕</button>
+                </span>
+              )}
+            </span>
             <button onClick={() => setPlaying((p) => !p)}>
               {playing ? "❚❚ Pause" : "▶️ Start Playback"}
             </button>
@@ -538,14 +1026,143 @@ const LogPlaybackXterm: FC = () => {
             <button onClick={() => setTime((t) => Math.min(duration, t + tickTimer))}>
               {tickTimer}s »
             </button>
+            <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} title="Playback speed">
+              {SPEEDS.map((s) => <option key={s} value={s}>{s}×</option>)}
+            </select>
+            <label style={{ marginLeft: 8 }} title="Cap any silence between entries at the max gap">
+              <input type="checkbox" checked={compressIdle} onChange={(e) => setCompressIdle(e.target.checked)} />
+              Compress idle gaps
+            </label>
+            {compressIdle && (
+              <label style={{ marginLeft: 4 }}>
+                max{" "}
+                <input
+                  type="number" min={0} step={1} value={maxGapSec} style={{ width: 48 }}
+                  onChange={(e) => setMaxGapSec(Math.max(0, Number(e.target.value) || 0))}
+                />s
+              </label>
+            )}
+            <button onClick={() => setShowTranscript((v) => !v)} title="Selectable transcript with timestamps; click a line to seek">
+              {showTranscript ? "Hide Transcript" : "Transcript"}
+            </button>
+            <button onClick={() => setShowSearch((v) => !v)}>
+              {showSearch ? "Hide Search" : "🔍 Search"}
+            </button>
+            <button onClick={() => setShowBookmarks((v) => !v)}>
+              {showBookmarks ? "Hide Bookmarks" : `🔖 Bookmarks (${bookmarks.list.length})`}
+            </button>
+            <button onClick={() => jumpBookmark(-1)} disabled={!bookmarks.list.length} title="Previous bookmark">‹</button>
+            <button onClick={() => jumpBookmark(1)} disabled={!bookmarks.list.length} title="Next bookmark">›</button>
+            <button onClick={() => setShowFights((v) => !v)}>
+              {showFights ? "Hide Fights" : `Fights (${fights.length})`}
+            </button>
+            <button onClick={() => setShowActors((v) => !v)} title="Aliases, pets and party tags for damage stats">
+              {showActors ? "Hide Actors" : "Actors"}{actorMap.partyOnly && " (party)"}
+            </button>
+            {textOnly && (
+              <button onClick={() => setShowCombatCfg((v) => !v)} title="Damage rounds are estimated from combat text">
+                ≈ Estimated damage
+              </button>
+            )}
+            {vitals.length > 0 && (
+              <button onClick={() => setShowProgress((v) => !v)} title="Experience, gold/silver, lowest HP and deaths from GMCP">
+                {showProgress ? "Hide Progress" : "Progress"}
+              </button>
+            )}
+            <button onClick={() => setShowDiagnostics((v) => !v)} title="Parse problems, gaps and damage consistency">
+              {showDiagnostics ? "Hide Diagnostics" : "Diagnostics"}
+              {problemCount > 0 && <span style={{ color: "#fc6" }}> ⚠ {problemCount}</span>}
+            </button>
+            <button onClick={() => setShowFilters((v) => !v)}>
+              {showFilters ? "Hide Filters" : "Filters"}
+              {filterRules.some((r) => r.enabled && r.value.trim()) && ` (${shown.length}/${entries.length})`}
+            </button>
             <span style={{ marginLeft: 12, color: "#aaa" }}>
-              {new Date(time * 1000).toISOString().substr(11, 8)} /{" "}
-              {new Date(duration * 1000).toISOString().substr(11, 8)}
+              {timeMap && (
+                <>
+                  {hms(realToPlayback(timeMap, time))} / {hms(realToPlayback(timeMap, duration))} compressed ·{" "}
+                </>
+              )}
+              {hms(time)} / {hms(duration)}{timeMap && " log time"}
             </span>
           </>
         )}
       </div>
-      <div ref={termContainer} style={{ flex: 1, width: "100%", height: "100%", background: "#000" }} />
+      {entries.length > 0 && (
+        <div style={{ background: "#222", paddingTop: 4 }}>
+          <Timeline
+            time={time} duration={duration} markers={markers} range={range}
+            onSeek={(t) => { setFollowLive(false); setTime(t); }}
+          />
+        </div>
+      )}
+      <div style={{ flex: 1, display: "flex", minHeight: 0 }}>
+        {showLibrary && (
+          <LibraryPanel
+            sessions={library} current={libKey} usage={libUsage} capMb={libCapMb} onCapMb={changeCap}
+            onOpen={openSession} onDelete={removeSession} onTags={(s, tags) => libraryCall(updateSession(s.key, { tags }))}
+            notice={libNotice}
+          />
+        )}
+        {entries.length > 0 && showFilters && (
+          <FilterPanel rules={filterRules} onChange={setFilterRules} subtypes={subtypes} shown={shown.length} total={entries.length} />
+        )}
+        {entries.length > 0 && showSearch && <SearchPanel lines={searchLines} onSelect={onSearchSelect} />}
+        <div ref={termContainer} style={{ flex: 1, minWidth: 0, height: "100%", background: "#000" }} />
+        {entries.length > 0 && showTranscript && (
+          <TranscriptPane
+            entries={shown} actors={actors} base={entries[0].ts.getTime()} time={time}
+            onSeek={(t) => { setPlaying(false); setFollowLive(false); setTime(t); }}
+            gutterColor={multiFile ? (e) => (e.sources && e.sources.length > 1 ? SHARED_COLOR.css : sourceColor(e.sources?.[0] ?? 0).css) : undefined}
+          />
+        )}
+        {showBBCodeCfg && <BBCodePanel config={bbcodeCfg} onApply={setBBCodeCfg} sample={bbcodeSample} />}
+        {entries.length > 0 && showRedaction && (
+          <RedactionPanel
+            config={redactCfg} onApply={setRedactCfg} entries={exported}
+            onExport={exportRedaction} onImport={importRedaction}
+          />
+        )}
+        {textOnly && showCombatCfg && (
+          <CombatParserPanel config={combatCfg} onApply={setCombatCfg} rounds={estimatedRounds} />
+        )}
+        {entries.length > 0 && showActors && (
+          <ActorPanel mapping={actorMap} onApply={setActorMap} actors={actorNames} onExport={exportActors} onImport={importActors} />
+        )}
+        {entries.length > 0 && showDiagnostics && (
+          <DiagnosticsPanel
+            files={files} analysis={analysis} gapSec={gapSec} onGapSec={setGapSec}
+            base={entries[0].ts.getTime()} onSeek={(t) => { setPlaying(false); setFollowLive(false); setTime(t); }}
+          />
+        )}
+        {entries.length > 0 && showBookmarks && (
+          <BookmarkPanel
+            bookmarks={bookmarks.list} base={entries[0].ts.getTime()} time={time}
+            onAdd={addBookmark} onChange={setBookmarkList}
+            onSeek={(t) => { setPlaying(false); setFollowLive(false); setTime(t); }}
+            onExport={exportBookmarks} onImport={importBookmarks}
+          />
+        )}
+        {entries.length > 0 && showFights && (
+          <FightDashboard
+            fights={fightStats} base={entries[0].ts.getTime()} onSeek={(t) => { setPlaying(false); setFollowLive(false); setTime(t); }}
+            config={segCfg} onConfig={setSegCfg} hasCombatFlag={hasCombatFlag}
+            edits={fightEdits.splitAt.length + fightEdits.mergeAt.length}
+            splitAt={cursorSplit} onSplit={(ts) => setFightEdits(withSplit(fightEdits, ts))}
+            onMerge={(i) => setFightEdits(withMerge(fightEdits, fights[i].start))}
+            onResetEdits={() => setFightEdits(NO_EDITS)}
+          />
+        )}
+        {vitals.length > 0 && showProgress && (
+          <ProgressPanel
+            progress={progress} fightStarts={fights.map((f) => f.start)} base={entries[0].ts.getTime()}
+            onSeek={(t) => { setPlaying(false); setFollowLive(false); setTime(t); }} onCopyCsv={copyProgressCsv}
+          />
+        )}
+        {vitals.length > 0 && (
+          <VitalsPanel samples={vitals} base={entries[0].ts.getTime()} time={time} duration={duration} />
+        )}
+      </div>
     </div>
   );
 };
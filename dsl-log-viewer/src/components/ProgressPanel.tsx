@@ -0,0 +1,93 @@
+// src/components/ProgressPanel.tsx
+import { FC } from "react";
+import type { ProgressTotals, SessionProgress } from "../core/progress";
+
+interface Props {
+  progress: SessionProgress;
+  fightStarts: number[]; // absolute ms, same order as progress.fights
+  base: number;          // absolute ms of playback time 0
+  onSeek: (t: number) => void;
+  onCopyCsv: () => void;
+}
+
+const hms = (ms: number) => new Date(Math.max(0, ms)).toISOString().substr(11, 8);
+const num = (n: number) => n.toLocaleString("en-US");
+const net = (inn: number, out: number) => {
+  const n = inn - out;
+  return <span style={{ color: n > 0 ? "#8c8" : n < 0 ? "#f66" : "#aaa" }}>{n > 0 ? "+" : ""}{num(n)}</span>;
+};
+
+const th = { textAlign: "right", padding: "1px 4px", color: "#aaa", fontWeight: 400 } as const;
+const td = { textAlign: "right", padding: "1px 4px" } as const;
+
+const Summary: FC<{ t: ProgressTotals; base: number; onSeek: (t: number) => void }> = ({ t, base, onSeek }) => (
+  <table style={{ borderCollapse: "collapse", width: "100%" }}>
+    <tbody>
+      <tr><td>Experience</td><td style={td}>{num(t.xp)}{t.levels > 0 && ` (+${t.levels} level${t.levels > 1 ? "s" : ""})`}</td></tr>
+      <tr><td>Gold</td><td style={td}>{net(t.goldIn, t.goldOut)} <span style={{ color: "#aaa" }}>(+{num(t.goldIn)} / −{num(t.goldOut)})</span></td></tr>
+      <tr><td>Silver</td><td style={td}>{net(t.silverIn, t.silverOut)} <span style={{ color: "#aaa" }}>(+{num(t.silverIn)} / −{num(t.silverOut)})</span></td></tr>
+      <tr>
+        <td>Lowest HP</td>
+        <td style={td}>
+          {t.lowestHp ? (
+            <span onClick={() => onSeek((t.lowestHp!.ts - base) / 1000)} style={{ cursor: "pointer" }}>
+              {t.lowestHp.hp}/{t.lowestHp.maxHp} at <span style={{ color: "#4cf" }}>{hms(t.lowestHp.ts - base)}</span>
+            </span>
+          ) : "—"}
+        </td>
+      </tr>
+      <tr>
+        <td>Deaths</td>
+        <td style={{ ...td, color: t.deaths.length ? "#f66" : undefined }}>
+          {t.deaths.length}
+          {t.deaths.map((d) => (
+            <span key={d} onClick={() => onSeek((d - base) / 1000)} style={{ cursor: "pointer", color: "#4cf", marginLeft: 6 }}>
+              {hms(d - base)}
+            </span>
+          ))}
+        </td>
+      </tr>
+    </tbody>
+  </table>
+);
+
+/* Experience, money, lowest HP and deaths over the session, then per fight. */
+const ProgressPanel: FC<Props> = ({ progress, fightStarts, base, onSeek, onCopyCsv }) => (
+  <div style={{ width: 420, overflowY: "auto", background: "#222", color: "#fff", fontSize: 12 }}>
+    <div style={{ padding: 8, borderBottom: "1px solid #333", display: "flex", gap: 8 }}>
+      <span style={{ fontWeight: 600 }}>Session progress</span>
+      <span style={{ color: "#aaa" }}>{progress.samples} GMCP samples</span>
+      <button onClick={onCopyCsv} style={{ marginLeft: "auto" }} title="One row per fight plus the session total">Copy CSV</button>
+    </div>
+    <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+      <Summary t={progress.session} base={base} onSeek={onSeek} />
+    </div>
+    <div style={{ padding: "6px 8px 2px", color: "#aaa" }}>Per fight</div>
+    {!progress.fights.length && <div style={{ padding: "0 8px 8px", color: "#aaa" }}>No fights in this log.</div>}
+    {progress.fights.length > 0 && (
+      <table style={{ borderCollapse: "collapse", width: "100%", padding: "0 8px" }}>
+        <thead>
+          <tr>
+            <th style={{ ...th, textAlign: "left" }}>#</th><th style={th}>Start</th><th style={th}>XP</th>
+            <th style={th}>Gold</th><th style={th}>Silver</th><th style={th}>Low HP</th><th style={th}>Deaths</th>
+          </tr>
+        </thead>
+        <tbody>
+          {progress.fights.map((t, i) => (
+            <tr key={fightStarts[i]} onClick={() => onSeek((fightStarts[i] - base) / 1000)} style={{ cursor: "pointer" }}>
+              <td style={{ ...td, textAlign: "left" }}>{i + 1}</td>
+              <td style={{ ...td, color: "#4cf" }}>{hms(fightStarts[i] - base)}</td>
+              <td style={td}>{num(t.xp)}{t.levels > 0 && " ⇧"}</td>
+              <td style={td}>{net(t.goldIn, t.goldOut)}</td>
+              <td style={td}>{net(t.silverIn, t.silverOut)}</td>
+              <td style={td}>{t.lowestHp ? `${t.lowestHp.hp}/${t.lowestHp.maxHp}` : "—"}</td>
+              <td style={{ ...td, color: t.deaths.length ? "#f66" : undefined }}>{t.deaths.length || ""}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export default ProgressPanel;
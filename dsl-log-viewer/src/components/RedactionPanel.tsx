@@ -0,0 +1,135 @@
+// src/components/RedactionPanel.tsx
+import { ChangeEvent, FC, useEffect, useMemo, useState } from "react";
+import { stripAnsi } from "../core/ansi";
+import type { LogEntry } from "../core/logParser";
+import {
+  DEFAULT_REDACTION, isTell, pseudonym, redactedNames, redactionRuleError, redactor,
+  type RedactionConfig, type RedactionRule,
+} from "../core/redaction";
+
+interface Props {
+  config: RedactionConfig;
+  onApply: (cfg: RedactionConfig) => void;
+  entries: LogEntry[]; // what would be exported, for the preview
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const PREVIEW_LINES = 8;
+
+/* Names → "Player A"…, regex rules and dropped tells for everything that leaves the viewer:
+   clipboard exports, the HTML download and the popup. Playback itself is never redacted. */
+const RedactionPanel: FC<Props> = ({ config, onApply, entries, onExport, onImport }) => {
+  const [draft, setDraft] = useState<RedactionConfig>(config);
+  useEffect(() => setDraft(config), [config]); // e.g. after an import
+
+  const names = useMemo(() => redactedNames(draft), [draft]);
+
+  // what the draft changes in this log's text
+  const preview = useMemo(() => {
+    const r = redactor({ ...draft, enabled: true });
+    const lines: { before: string; after: string }[] = [];
+    let changed = 0, dropped = 0;
+    if (r) {
+      for (const e of entries) {
+        if (e.message === undefined) continue;
+        if (draft.dropTells && isTell(e.message)) { dropped++; continue; }
+        const after = r.text(e.message);
+        if (after === e.message) continue;
+        changed++;
+        if (lines.length < PREVIEW_LINES) lines.push({ before: stripAnsi(e.message), after: stripAnsi(after) });
+      }
+    }
+    return { lines, changed, dropped };
+  }, [draft, entries]);
+
+  const setRule = (i: number, patch: Partial<RedactionRule>) =>
+    setDraft({ ...draft, rules: draft.rules.map((r, j) => (j === i ? { ...r, ...patch } : r)) });
+
+  const pickImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (f) onImport(f);
+    e.target.value = ""; // allow re-importing the same file
+  };
+
+  return (
+    <div style={{ width: 400, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <div style={{ fontWeight: 600 }}>Redaction</div>
+        <div style={{ color: "#aaa", margin: "2px 0 6px" }}>
+          Applied to exports and the popup viewer, including damage rounds and fight summaries.
+        </div>
+        <label>
+          <input type="checkbox" checked={draft.enabled} onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })} />
+          Redact exports
+        </label>
+        <label style={{ marginLeft: 12 }} title={'"… tells you …", "You tell …", whispers and replies'}>
+          <input type="checkbox" checked={draft.dropTells} onChange={(e) => setDraft({ ...draft, dropTells: e.target.checked })} />
+          Drop tell/whisper lines
+        </label>
+        <div style={{ marginTop: 6, display: "flex", gap: 4 }}>
+          <button onClick={() => onApply(draft)} disabled={draft === config}>Apply</button>
+          <button onClick={() => setDraft({ ...DEFAULT_REDACTION, enabled: draft.enabled })} disabled={!draft.names.length && !draft.rules.length && !draft.dropTells}>
+            Clear
+          </button>
+          <button onClick={onExport} disabled={!config.names.length && !config.rules.length} style={{ marginLeft: "auto" }}>Export</button>
+          <label>
+            <input type="file" accept=".json,application/json" onChange={pickImport} style={{ display: "none" }} />
+            <span role="button" style={{ border: "1px solid #555", padding: "1px 6px", cursor: "pointer" }}>Import</span>
+          </label>
+        </div>
+      </div>
+      <div style={{ flex: 1, overflowY: "auto", padding: 8 }}>
+        <div style={{ fontWeight: 600 }}>Names</div>
+        <div style={{ color: "#aaa", marginBottom: 2 }}>One per line, matched as whole words in any case.</div>
+        <textarea
+          value={draft.names.join("\n")} rows={5} placeholder={"Bob\nAliceAccount"}
+          onChange={(e) => setDraft({ ...draft, names: e.target.value.split("\n") })}
+          style={{ width: "100%", boxSizing: "border-box", font: "12px monospace" }}
+        />
+        {names.length > 0 && (
+          <div style={{ color: "#aaa", marginBottom: 8 }}>
+            {names.map((n, i) => `${n} → ${pseudonym(i)}`).join(" · ")}
+          </div>
+        )}
+
+        <div style={{ display: "flex", alignItems: "center", marginTop: 8 }}>
+          <span style={{ fontWeight: 600 }}>Rules</span>
+          <button style={{ marginLeft: "auto" }} onClick={() => setDraft({ ...draft, rules: [...draft.rules, { enabled: true, pattern: "", replacement: "" }] })}>
+            + Rule
+          </button>
+        </div>
+        {!draft.rules.length && <div style={{ color: "#aaa" }}>Regexes over message text, case-insensitive; $1… work in the replacement.</div>}
+        {draft.rules.map((r, i) => {
+          const err = redactionRuleError(r);
+          return (
+            <div key={i} style={{ marginTop: 4, opacity: r.enabled ? 1 : 0.5 }}>
+              <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                <input type="checkbox" checked={r.enabled} onChange={(e) => setRule(i, { enabled: e.target.checked })} />
+                <input value={r.pattern} placeholder="account \w+" onChange={(e) => setRule(i, { pattern: e.target.value })} style={{ flex: 1, minWidth: 0 }} />
+                →
+                <input value={r.replacement} placeholder="[redacted]" onChange={(e) => setRule(i, { replacement: e.target.value })} style={{ width: 90 }} />
+                <button onClick={() => setDraft({ ...draft, rules: draft.rules.filter((_, j) => j !== i) })} title="Remove rule">✕</button>
+              </div>
+              {err && <div style={{ color: "#e66" }}>{err}</div>}
+            </div>
+          );
+        })}
+
+        <div style={{ fontWeight: 600, marginTop: 12 }}>Preview</div>
+        <div style={{ color: "#aaa" }}>
+          {preview.changed} lines changed{draft.dropTells && `, ${preview.dropped} tells dropped`}
+          {!draft.enabled && " (off: exports are not redacted)"}
+        </div>
+        {preview.lines.map((l, i) => (
+          <div key={i} style={{ marginTop: 4, font: "11px monospace", whiteSpace: "pre-wrap", wordBreak: "break-all" }}>
+            <div style={{ color: "#888", textDecoration: "line-through" }}>{l.before}</div>
+            <div>{l.after}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPanel;
@@ -0,0 +1,123 @@
+// src/components/SearchPanel.tsx
+import { FC, useEffect, useMemo, useRef, useState } from "react";
+
+export interface SearchLine {
+  t: number;     // playback seconds
+  stamp: string; // display timestamp
+  text: string;  // ANSI-stripped message
+}
+
+export interface SearchQuery {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface SearchHit {
+  line: number; // index into lines
+  t: number;
+  start: number;
+  length: number;
+}
+
+interface Props {
+  lines: SearchLine[];
+  onSelect: (hit: SearchHit, q: SearchQuery) => void;
+}
+
+const MAX_LISTED = 2000;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/* Compile the query, or return the RegExp error message. */
+function compile(q: SearchQuery): RegExp | string | null {
+  if (!q.query) return null;
+  try {
+    return new RegExp(q.regex ? q.query : escapeRegExp(q.query), q.caseSensitive ? "" : "i");
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+/* Full-log search over dsl-message text, one hit per matching line. */
+const SearchPanel: FC<Props> = ({ lines, onSelect }) => {
+  const [query, setQuery] = useState<string>("");
+  const [regex, setRegex] = useState<boolean>(false);
+  const [caseSensitive, setCaseSensitive] = useState<boolean>(false);
+  const [active, setActive] = useState<number>(-1);
+  const list = useRef<HTMLDivElement>(null);
+
+  const q: SearchQuery = useMemo(() => ({ query, regex, caseSensitive }), [query, regex, caseSensitive]);
+  const re = useMemo(() => compile(q), [q]);
+
+  const hits = useMemo<SearchHit[]>(() => {
+    if (!(re instanceof RegExp)) return [];
+    const out: SearchHit[] = [];
+    lines.forEach((l, i) => {
+      const m = re.exec(l.text);
+      if (m && m[0].length > 0) out.push({ line: i, t: l.t, start: m.index, length: m[0].length });
+    });
+    return out;
+  }, [lines, re]);
+
+  useEffect(() => setActive(-1), [hits]);
+
+  // keep the active row in view
+  useEffect(() => {
+    list.current?.querySelector<HTMLElement>(`[data-hit="${active}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const select = (i: number) => {
+    if (!hits.length) return;
+    const idx = (i + hits.length) % hits.length;
+    setActive(idx);
+    onSelect(hits[idx], q);
+  };
+
+  return (
+    <div style={{ width: 300, display: "flex", flexDirection: "column", background: "#222", color: "#fff", fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: "1px solid #333" }}>
+        <input
+          type="search" placeholder="Search log…" value={query} style={{ width: "100%", boxSizing: "border-box" }}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") select(e.shiftKey ? active - 1 : active + 1); }}
+        />
+        <div style={{ marginTop: 4, display: "flex", alignItems: "center", gap: 6 }}>
+          <label><input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />Regex</label>
+          <label><input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />Aa</label>
+          <span style={{ marginLeft: "auto", color: "#aaa" }}>
+            {hits.length ? `${active >= 0 ? active + 1 : "–"} / ${hits.length}` : query ? "0 matches" : ""}
+          </span>
+          <button onClick={() => select(active - 1)} disabled={!hits.length} title="Previous match (Shift+Enter)">‹</button>
+          <button onClick={() => select(active + 1)} disabled={!hits.length} title="Next match (Enter)">›</button>
+        </div>
+        {typeof re === "string" && <div style={{ color: "#e66", marginTop: 4 }}>{re}</div>}
+      </div>
+      <div ref={list} style={{ flex: 1, overflowY: "auto" }}>
+        {hits.slice(0, MAX_LISTED).map((h, i) => {
+          const l = lines[h.line];
+          return (
+            <div
+              key={h.line}
+              data-hit={i}
+              onClick={() => select(i)}
+              style={{ padding: "2px 8px", cursor: "pointer", background: i === active ? "#3a3f7a" : "transparent", whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}
+            >
+              <span style={{ color: "#888", marginRight: 6 }}>{l.stamp}</span>
+              {l.text.slice(0, h.start)}
+              <mark>{l.text.slice(h.start, h.start + h.length)}</mark>
+              {l.text.slice(h.start + h.length)}
+            </div>
+          );
+        })}
+        {hits.length > MAX_LISTED && (
+          <div style={{ padding: 8, color: "#aaa" }}>Showing first {MAX_LISTED} of {hits.length}; use ‹ › to reach the rest.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
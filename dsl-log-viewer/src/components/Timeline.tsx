@@ -0,0 +1,113 @@
+// src/components/Timeline.tsx
+import { FC, PointerEvent, useMemo, useRef } from "react";
+
+export type TimelineMarkerKind = "round" | "fight-start" | "fight-end" | "bookmark";
+
+export interface TimelineMarker {
+  t: number; // playback seconds
+  kind: TimelineMarkerKind;
+  label: string;
+}
+
+interface Props {
+  time: number;     // playback seconds
+  duration: number; // playback seconds
+  markers: TimelineMarker[];
+  range?: { start: number; end: number } | null; // export in/out points, playback seconds
+  onSeek: (t: number) => void;
+}
+
+const MARKER_BUCKETS = 1000; // at most one marker of each kind per 0.1% of the track
+
+const markerStyle: Record<TimelineMarkerKind, { color: string; top: number; height: number; width: number }> = {
+  "round":       { color: "#d80", top: 6, height: 8,  width: 1 },
+  "fight-start": { color: "#3c3", top: 0, height: 20, width: 3 },
+  "fight-end":   { color: "#c33", top: 0, height: 20, width: 3 },
+  "bookmark":    { color: "#4cf", top: 0, height: 8,  width: 5 },
+};
+
+/* Draggable scrubber with clickable markers for damage rounds, fight boundaries and bookmarks. */
+const Timeline: FC<Props> = ({ time, duration, markers, range, onSeek }) => {
+  const track = useRef<HTMLDivElement>(null);
+  const dragging = useRef<boolean>(false);
+
+  // Thin out dense markers so long raids don't render tens of thousands of nodes
+  const visible = useMemo(() => {
+    if (duration <= 0) return [];
+    const seen = new Set<string>();
+    const out: TimelineMarker[] = [];
+    for (const m of markers) {
+      const key = `${m.kind}|${Math.floor((m.t / duration) * MARKER_BUCKETS)}`;
+      if (m.kind === "round" && seen.has(key)) continue;
+      seen.add(key);
+      out.push(m);
+    }
+    return out;
+  }, [markers, duration]);
+
+  const seekFromPointer = (e: PointerEvent<HTMLDivElement>) => {
+    const el = track.current;
+    if (!el || duration <= 0) return;
+    const r = el.getBoundingClientRect();
+    const frac = Math.max(0, Math.min(1, (e.clientX - r.left) / Math.max(r.width, 1)));
+    onSeek(frac * duration);
+  };
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    dragging.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    seekFromPointer(e);
+  };
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragging.current) seekFromPointer(e);
+  };
+  const onPointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    dragging.current = false;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const pos = duration > 0 ? Math.min(1, time / duration) * 100 : 0;
+
+  return (
+    <div
+      ref={track}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      style={{ position: "relative", height: 20, margin: "0 8px 6px", cursor: "pointer", userSelect: "none", touchAction: "none" }}
+    >
+      <div style={{ position: "absolute", left: 0, right: 0, top: 8, height: 4, background: "#444", borderRadius: 2 }} />
+      {range && duration > 0 && (
+        <div
+          title="Export range"
+          style={{
+            position: "absolute", left: `${(range.start / duration) * 100}%`, width: `${((range.end - range.start) / duration) * 100}%`,
+            top: 2, height: 16, background: "rgba(100, 108, 255, 0.25)", borderLeft: "2px solid #646cff", borderRight: "2px solid #646cff",
+            pointerEvents: "none",
+          }}
+        />
+      )}
+      <div style={{ position: "absolute", left: 0, width: `${pos}%`, top: 8, height: 4, background: "#646cff", borderRadius: 2 }} />
+      {visible.map((m, i) => {
+        const st = markerStyle[m.kind];
+        return (
+          <div
+            key={i}
+            title={m.label}
+            onPointerDown={(e) => { e.stopPropagation(); onSeek(m.t); }}
+            style={{
+              position: "absolute", left: `calc(${(m.t / duration) * 100}% - ${Math.floor(st.width / 2)}px)`,
+              top: st.top, width: st.width, height: st.height, background: st.color,
+            }}
+          />
+        );
+      })}
+      <div style={{
+        position: "absolute", left: `calc(${pos}% - 6px)`, top: 4, width: 12, height: 12,
+        borderRadius: "50%", background: "#fff", pointerEvents: "none",
+      }} />
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,147 @@
+// src/components/TranscriptPane.tsx
+import { FC, useEffect, useMemo, useRef, useState } from "react";
+import { buildRoundPerSourceLines } from "../core/damage";
+import { entryDamage, renderEntry } from "../core/entryTypes";
+import { ansiLineToHtml, roundHeader, type ExportFormat } from "../core/exporters";
+import { upperBound, type LogEntry } from "../core/logParser";
+import type { ActorResolver } from "../core/actors";
+
+interface Props {
+  entries: LogEntry[];   // what playback shows (filters applied)
+  actors: ActorResolver;
+  base: number;          // absolute ms of playback time 0
+  time: number;          // playback seconds
+  onSeek: (t: number) => void;
+  gutterColor?: (e: LogEntry) => string | null; // per-file color (multi-file only)
+}
+
+interface Row {
+  ts: number;
+  entry: LogEntry;
+  text: string; // ANSI; converted to HTML only when the row is on screen
+}
+
+const ROW_H = 17;
+const OVERSCAN = 20;
+// Browsers cap element height (~17.9M px in Firefox); past this the scrollbar is scaled
+const MAX_SPACER_H = 10_000_000;
+
+// Lines per entry for the transcript: ANSI, one row each, no fight summaries
+const TRANSCRIPT: ExportFormat = {
+  id: "transcript",
+  message: (m) => m,
+  round: (p) => [`\x1b[1m\x1b[38;5;208m⮞ ${roundHeader(p)}\x1b[0m`, ...buildRoundPerSourceLines(p).map((l) => `   ${l}`)],
+  fightSummary: () => [],
+  document: (body) => body.join("\n"),
+};
+
+// HTML per row, converted the first time it scrolls into view
+const htmlCache = new WeakMap<Row, string>();
+const htmlOf = (r: Row) => {
+  let h = htmlCache.get(r);
+  if (h === undefined) { h = ansiLineToHtml(r.text) || " "; htmlCache.set(r, h); }
+  return h;
+};
+
+const stamp = (ts: number) => new Date(ts).toISOString().substr(11, 12);
+
+/* Every shown entry as selectable HTML with a timestamp gutter. Only the rows in view are
+   in the DOM; the pane follows playback, and clicking a line (without selecting text) seeks to it. */
+const TranscriptPane: FC<Props> = ({ entries, actors, base, time, onSeek, gutterColor }) => {
+  const box = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [height, setHeight] = useState<number>(0);
+  const [follow, setFollow] = useState<boolean>(true);
+
+  const rows = useMemo<Row[]>(() => {
+    const out: Row[] = [];
+    for (const e of entries) {
+      const round = entryDamage(e);
+      const p = round && actors.payload(round);
+      const lines = renderEntry(p && p !== round ? { ...e, payload: p } : e, TRANSCRIPT);
+      const ts = e.ts.getTime();
+      for (const text of lines) out.push({ ts, entry: e, text });
+    }
+    return out;
+  }, [entries, actors]);
+  const rowTimes = useMemo(() => Float64Array.from(rows, (r) => r.ts), [rows]);
+
+  // last row at or before the playback position
+  const current = upperBound(rowTimes, base + time * 1000) - 1;
+
+  // virtual px per scrolled px: 1 until the rows outgrow MAX_SPACER_H
+  const total = rows.length * ROW_H;
+  const spacer = Math.min(total, MAX_SPACER_H);
+  const ratio = spacer > height ? (total - height) / (spacer - height) : 1;
+  const offset = scrollTop * ratio; // virtual px at the top of the view
+
+  useEffect(() => {
+    const el = box.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setHeight(el.clientHeight));
+    ro.observe(el);
+    setHeight(el.clientHeight);
+    return () => ro.disconnect();
+  }, []);
+
+  // keep the current row in view, a few rows above the bottom like the terminal
+  useEffect(() => {
+    const el = box.current;
+    if (!el || !follow || current < 0) return;
+    const top = current * ROW_H;
+    const view = el.scrollTop * ratio;
+    if (top < view || top + ROW_H > view + el.clientHeight) {
+      el.scrollTop = Math.max(0, top - el.clientHeight + ROW_H * 4) / ratio;
+    }
+  }, [current, follow, height, ratio]);
+
+  const first = Math.max(0, Math.floor(offset / ROW_H) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((offset + height) / ROW_H) + OVERSCAN);
+
+  const seekTo = (r: Row) => {
+    if (!window.getSelection()?.isCollapsed) return; // selecting text to copy
+    onSeek((r.ts - base) / 1000);
+  };
+
+  return (
+    <div style={{ flex: 1, minWidth: 0, display: "flex", flexDirection: "column", background: "#000", borderLeft: "1px solid #333" }}>
+      <div style={{ padding: "4px 8px", background: "#222", color: "#fff", fontSize: 12, display: "flex", gap: 8 }}>
+        <span style={{ fontWeight: 600 }}>Transcript</span>
+        <span style={{ color: "#aaa" }}>{rows.length} lines</span>
+        <label style={{ marginLeft: "auto" }} title="Keep the playback position in view">
+          <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+          Follow playback
+        </label>
+      </div>
+      <div
+        ref={box} role="log" aria-label="Log transcript"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        style={{ flex: 1, overflow: "auto", position: "relative", font: "13px Menlo, Consolas, monospace", color: "#ccc" }}
+      >
+        <div style={{ height: spacer, position: "relative" }}>
+          {rows.slice(first, last).map((r, k) => {
+            const i = first + k;
+            const color = gutterColor?.(r.entry);
+            return (
+              <div
+                key={i} onClick={() => seekTo(r)}
+                style={{
+                  position: "absolute", top: scrollTop + i * ROW_H - offset, left: 0, right: 0, height: ROW_H, lineHeight: `${ROW_H}px`,
+                  display: "flex", whiteSpace: "pre", overflow: "hidden", cursor: "pointer", opacity: i > current ? 0.45 : 1,
+                  background: i === current ? "#3a3f7a" : undefined,
+                }}
+              >
+                <span style={{ color: "#666", userSelect: "none", padding: "0 6px", borderLeft: `3px solid ${color ?? "transparent"}` }}>
+                  {stamp(r.ts)}
+                </span>
+                <span style={{ overflow: "hidden", textOverflow: "ellipsis" }} dangerouslySetInnerHTML={{ __html: htmlOf(r) }} />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPane;
@@ -0,0 +1,134 @@
+// src/components/VitalsPanel.tsx
+import { FC, useMemo } from "react";
+import type { CharData } from "../core/logParser";
+
+export interface VitalsSample {
+  ts: number; // absolute ms
+  data: CharData;
+}
+
+interface Props {
+  samples: VitalsSample[]; // sorted by ts
+  base: number;            // absolute ms of playback time 0
+  time: number;            // playback seconds
+  duration: number;        // playback seconds
+}
+
+const SPARK_W = 220;
+const SPARK_H = 36;
+const SPARK_BUCKETS = 110;
+
+/* Index of the last sample at or before `ms`, or -1. */
+function sampleIndexAt(samples: VitalsSample[], ms: number): number {
+  let lo = 0, hi = samples.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].ts <= ms) { found = mid; lo = mid + 1; } else { hi = mid - 1; }
+  }
+  return found;
+}
+
+function pct(cur: number, max: number): number {
+  if (!max || max <= 0) return 0;
+  return Math.max(0, Math.min(1, (cur ?? 0) / max));
+}
+
+/* Bucket the session into SPARK_BUCKETS columns, keeping each column's MINIMUM so
+   short dips (near-deaths) survive the downsampling. */
+function buildSpark(samples: VitalsSample[], base: number, duration: number, pick: (d: CharData) => number): string {
+  if (!samples.length) return "";
+  const span = Math.max(duration * 1000, 1);
+  const mins: (number | null)[] = new Array(SPARK_BUCKETS).fill(null);
+  for (const s of samples) {
+    const b = Math.min(SPARK_BUCKETS - 1, Math.max(0, Math.floor(((s.ts - base) / span) * SPARK_BUCKETS)));
+    const v = pick(s.data);
+    mins[b] = mins[b] === null ? v : Math.min(mins[b]!, v);
+  }
+  // carry the previous value through buckets with no samples
+  let prev = mins.find((v) => v !== null) ?? 0;
+  const pts: string[] = [];
+  for (let i = 0; i < SPARK_BUCKETS; i++) {
+    const v = mins[i] ?? prev;
+    prev = v;
+    const x = (i / (SPARK_BUCKETS - 1)) * SPARK_W;
+    const y = SPARK_H - v * (SPARK_H - 2) - 1;
+    pts.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  }
+  return pts.join(" ");
+}
+
+const Bar: FC<{ label: string; cur: number; max: number; color: string }> = ({ label, cur, max, color }) => (
+  <div style={{ marginBottom: 6 }}>
+    <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12 }}>
+      <span>{label}</span>
+      <span style={{ color: "#aaa" }}>{cur ?? 0} / {max ?? 0}</span>
+    </div>
+    <div style={{ height: 10, background: "#333", borderRadius: 3, overflow: "hidden" }}>
+      <div style={{ width: `${pct(cur, max) * 100}%`, height: "100%", background: color }} />
+    </div>
+  </div>
+);
+
+const Flag: FC<{ label: string; on: boolean; color?: string }> = ({ label, on, color = "#4a4" }) => (
+  <span style={{
+    display: "inline-block", marginRight: 4, marginBottom: 4, padding: "1px 6px", borderRadius: 3, fontSize: 11,
+    background: on ? color : "#333", color: on ? "#fff" : "#777",
+  }}>
+    {label}
+  </span>
+);
+
+const Spark: FC<{ label: string; points: string; color: string; cursorX: number }> = ({ label, points, color, cursorX }) => (
+  <div style={{ marginBottom: 6 }}>
+    <div style={{ fontSize: 11, color: "#aaa" }}>{label}</div>
+    <svg width={SPARK_W} height={SPARK_H} style={{ display: "block", background: "#111" }}>
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1} />
+      <line x1={cursorX} x2={cursorX} y1={0} y2={SPARK_H} stroke="#fff" strokeOpacity={0.6} />
+    </svg>
+  </div>
+);
+
+/* Character state as of the current playback time, plus whole-session sparklines. */
+const VitalsPanel: FC<Props> = ({ samples, base, time, duration }) => {
+  const sparks = useMemo(() => ({
+    hp: buildSpark(samples, base, duration, (d) => pct(d.hp, d.max_hp)),
+    mana: buildSpark(samples, base, duration, (d) => pct(d.mana, d.max_mana)),
+    move: buildSpark(samples, base, duration, (d) => pct(d.move, d.max_move)),
+  }), [samples, base, duration]);
+
+  const idx = sampleIndexAt(samples, base + time * 1000);
+  const cur = idx >= 0 ? samples[idx] : null;
+  const cursorX = duration > 0 ? Math.min(1, time / duration) * SPARK_W : 0;
+
+  return (
+    <div style={{ width: SPARK_W + 16, padding: 8, background: "#222", color: "#fff", overflowY: "auto" }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>Vitals</div>
+      {!cur ? (
+        <div style={{ color: "#aaa", fontSize: 12 }}>No GMCP data yet.</div>
+      ) : (
+        <>
+          <div style={{ fontSize: 11, color: "#aaa", marginBottom: 6 }}>
+            as of {new Date(cur.ts).toISOString().substr(11, 12)}
+          </div>
+          <Bar label="HP" cur={cur.data.hp} max={cur.data.max_hp} color="#c33" />
+          <Bar label="Mana" cur={cur.data.mana} max={cur.data.max_mana} color="#36c" />
+          <Bar label="Move" cur={cur.data.move} max={cur.data.max_move} color="#3a3" />
+          <div style={{ fontSize: 12, margin: "6px 0" }}>
+            Stance: <span style={{ color: "#ddd" }}>{cur.data.stance || "—"}</span>
+          </div>
+          <div style={{ marginBottom: 6 }}>
+            <Flag label="Fighting" on={!!cur.data.is_fighting} color="#a33" />
+            <Flag label="Flying" on={!!cur.data.is_flying} />
+            <Flag label="Riding" on={!!cur.data.is_riding} />
+            <Flag label="AFK" on={!!cur.data.is_afk} color="#a83" />
+          </div>
+        </>
+      )}
+      <Spark label="HP % (session)" points={sparks.hp} color="#c33" cursorX={cursorX} />
+      <Spark label="Mana % (session)" points={sparks.mana} color="#36c" cursorX={cursorX} />
+      <Spark label="Move % (session)" points={sparks.move} color="#3a3" cursorX={cursorX} />
+    </div>
+  );
+};
+
+export default VitalsPanel;
@@ -0,0 +1,68 @@
+// src/components/bookmarks.ts
+
+export interface Bookmark {
+  id: string;
+  ts: number; // absolute ms, so bookmarks survive filters and different file combinations
+  title: string;
+  note: string;
+}
+
+/* Sidecar file shared between teammates reviewing the same log */
+export interface BookmarkSidecar {
+  format: "dsl-log-viewer/bookmarks";
+  version: 1;
+  log: string;     // log key the bookmarks were made on
+  files: string[]; // file names, for humans
+  bookmarks: Bookmark[];
+}
+
+const STORAGE_PREFIX = "dsl-log-viewer:bookmarks:";
+
+export const newBookmarkId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const sortBookmarks = (list: Bookmark[]) => [...list].sort((a, b) => a.ts - b.ts);
+
+export function loadBookmarks(logKey: string): Bookmark[] {
+  if (!logKey) return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + logKey);
+    if (raw) {
+      const list = JSON.parse(raw) as Bookmark[];
+      if (Array.isArray(list)) return list.filter(isBookmark);
+    }
+  } catch { /* fall back to none */ }
+  return [];
+}
+
+export function saveBookmarks(logKey: string, list: Bookmark[]) {
+  if (!logKey) return;
+  try {
+    if (list.length) localStorage.setItem(STORAGE_PREFIX + logKey, JSON.stringify(list));
+    else localStorage.removeItem(STORAGE_PREFIX + logKey);
+  } catch { /* storage full or disabled */ }
+}
+
+function isBookmark(b: unknown): b is Bookmark {
+  const x = b as Bookmark;
+  return !!x && typeof x.id === "string" && typeof x.ts === "number" && typeof x.title === "string" && typeof x.note === "string";
+}
+
+export const toSidecar = (logKey: string, files: string[], bookmarks: Bookmark[]): BookmarkSidecar =>
+  ({ format: "dsl-log-viewer/bookmarks", version: 1, log: logKey, files, bookmarks: sortBookmarks(bookmarks) });
+
+/* Parse a sidecar file; throws with a readable message when it isn't one. */
+export function parseSidecar(text: string): BookmarkSidecar {
+  let obj: BookmarkSidecar;
+  try { obj = JSON.parse(text); } catch { throw new Error("Not a JSON file"); }
+  if (obj?.format !== "dsl-log-viewer/bookmarks" || !Array.isArray(obj.bookmarks)) {
+    throw new Error("Not a bookmarks file");
+  }
+  return { ...obj, bookmarks: obj.bookmarks.filter(isBookmark) };
+}
+
+/* Imported bookmarks replace local ones with the same id and are added otherwise. */
+export function mergeBookmarks(local: Bookmark[], incoming: Bookmark[]): Bookmark[] {
+  const byId = new Map(local.map((b) => [b.id, b]));
+  for (const b of incoming) byId.set(b.id, b);
+  return sortBookmarks([...byId.values()]);
+}
@@ -0,0 +1,131 @@
+// src/components/library.ts
+// Past sessions kept in IndexedDB: the picked files themselves, so a session reopens
+// exactly like a fresh pick, plus what the library list shows about them.
+import type { LogSummary } from "../core/logSummary";
+
+export interface LibraryFile {
+  name: string;
+  size: number;
+  hash: string;
+}
+
+export interface LibrarySession {
+  key: string;            // log key: the files' content hashes (same key as bookmarks)
+  files: LibraryFile[];
+  size: number;           // bytes stored
+  addedAt: number;
+  openedAt: number;       // eviction goes least recently opened first
+  position: number;       // playback seconds to resume at
+  tags: string[];
+  summary: LogSummary | null; // filled in once the log has been parsed
+}
+
+const DB_NAME = "dsl-log-viewer";
+const DB_VERSION = 1;
+const SESSIONS = "sessions"; // LibrarySession by key
+const BLOBS = "blobs";       // File[] by session key, kept apart so listing never loads log text
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(SESSIONS, { keyPath: "key" });
+      req.result.createObjectStore(BLOBS);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => { dbPromise = null; reject(req.error); };
+  });
+  return dbPromise;
+}
+
+const done = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => { req.onsuccess = () => resolve(req.result); req.onerror = () => reject(req.error); });
+
+const committed = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => { tx.oncomplete = () => resolve(); tx.onerror = tx.onabort = () => reject(tx.error); });
+
+/* Every stored session, most recently opened first */
+export async function listSessions(): Promise<LibrarySession[]> {
+  const db = await openDb();
+  const all = await done(db.transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<LibrarySession[]>);
+  return all.sort((a, b) => b.openedAt - a.openedAt);
+}
+
+export async function loadSessionFiles(key: string): Promise<File[]> {
+  const db = await openDb();
+  const files = await done(db.transaction(BLOBS).objectStore(BLOBS).get(key) as IDBRequest<File[] | undefined>);
+  if (!files) throw new Error("the session's files are no longer stored");
+  return files;
+}
+
+/* Store a freshly picked log (tags and resume position survive re-adding the same files).
+   Returns false when the log alone is larger than the cap. */
+export async function addSession(key: string, files: File[], hashes: string[], capBytes: number): Promise<boolean> {
+  const size = files.reduce((s, f) => s + f.size, 0);
+  if (size > capBytes) return false;
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, BLOBS], "readwrite");
+  const sessions = tx.objectStore(SESSIONS);
+  const prev = await done(sessions.get(key) as IDBRequest<LibrarySession | undefined>);
+  const now = Date.now();
+  sessions.put({
+    key,
+    files: files.map((f, i) => ({ name: f.name, size: f.size, hash: hashes[i] })),
+    size,
+    addedAt: prev?.addedAt ?? now,
+    openedAt: now,
+    position: prev?.position ?? 0,
+    tags: prev?.tags ?? [],
+    summary: prev?.summary ?? null,
+  } satisfies LibrarySession);
+  tx.objectStore(BLOBS).put(files, key);
+  await committed(tx);
+  await enforceCap(capBytes, key);
+  return true;
+}
+
+/* Change fields of a stored session; a session that was deleted meanwhile stays deleted */
+export async function updateSession(key: string, patch: Partial<Omit<LibrarySession, "key">>): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  const store = tx.objectStore(SESSIONS);
+  const cur = await done(store.get(key) as IDBRequest<LibrarySession | undefined>);
+  if (cur) store.put({ ...cur, ...patch });
+  await committed(tx);
+}
+
+export async function deleteSession(key: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, BLOBS], "readwrite");
+  tx.objectStore(SESSIONS).delete(key);
+  tx.objectStore(BLOBS).delete(key);
+  await committed(tx);
+}
+
+/* Drop the least recently opened sessions until the library fits in `capBytes`
+   (`keep` is never dropped). Returns how many were removed. */
+export async function enforceCap(capBytes: number, keep?: string): Promise<number> {
+  const list = await listSessions();
+  let total = list.reduce((s, x) => s + x.size, 0);
+  let removed = 0;
+  for (const s of [...list].reverse()) {
+    if (total <= capBytes) break;
+    if (s.key === keep) continue;
+    await deleteSession(s.key);
+    total -= s.size;
+    removed++;
+  }
+  return removed;
+}
+
+/* What the browser reports for this origin (all storage, not just the library) */
+export async function storageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    const est = await navigator.storage?.estimate();
+    return est ? { usage: est.usage ?? 0, quota: est.quota ?? 0 } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,61 @@
+// src/components/liveTail.ts
+import { parseLine, type LogEntry } from "../core/logParser";
+
+export type LiveStatus = "connecting" | "open" | "closed" | "error";
+
+export interface LiveCallbacks {
+  onEntries: (batch: LogEntry[]) => void;
+  onStatus: (status: LiveStatus, detail?: string) => void;
+}
+
+export interface LiveHandle {
+  close: () => void;
+}
+
+const FLUSH_EVERY_MS = 250; // batch lines so a burst of combat is one re-render, not hundreds
+
+/* Connect to a WebSocket streaming the same JSONL lines as a log file. A message may hold
+   one line, several, or part of one; entries are parsed as complete lines arrive. */
+export function connectLive(url: string, cb: LiveCallbacks): LiveHandle {
+  const ws = new WebSocket(url);
+  let rest = "";
+  let pending: LogEntry[] = [];
+  let closedByUs = false;
+
+  const flush = () => {
+    if (!pending.length) return;
+    const batch = pending;
+    pending = [];
+    cb.onEntries(batch);
+  };
+  const timer = window.setInterval(flush, FLUSH_EVERY_MS);
+
+  cb.onStatus("connecting");
+  ws.onopen = () => cb.onStatus("open");
+  ws.onmessage = (ev: MessageEvent) => {
+    if (typeof ev.data !== "string") return;
+    const lines = (rest + ev.data).split(/\r?\n/);
+    rest = lines.pop() ?? "";
+    for (const line of lines) {
+      const e = parseLine(line);
+      if (e) pending.push(e);
+    }
+    // a message without a trailing newline may still be one whole JSON line
+    const e = rest.trim().endsWith("}") ? parseLine(rest) : null;
+    if (e) { pending.push(e); rest = ""; }
+  };
+  ws.onerror = () => cb.onStatus("error", `Could not connect to ${url}`);
+  ws.onclose = (ev) => {
+    clearInterval(timer);
+    flush();
+    if (!closedByUs) cb.onStatus("closed", ev.reason || undefined);
+  };
+
+  return {
+    close: () => {
+      closedByUs = true;
+      clearInterval(timer);
+      ws.close();
+    },
+  };
+}
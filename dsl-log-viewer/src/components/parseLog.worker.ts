@@ -0,0 +1,66 @@
+// src/components/parseLog.worker.ts
+import { contentHasher } from "../core/contentHash";
+import { newParseDiagnostics, type ParseDiagnostics } from "../core/diagnostics";
+import { finalizeEntries, parseLine, type LogEntry } from "../core/logParser";
+
+export interface ParseRequest {
+  files: File[];
+}
+
+export type ParseResponse =
+  | { kind: "progress"; loaded: number; total: number }
+  | { kind: "done"; results: LogEntry[][]; hashes: string[]; diagnostics: ParseDiagnostics[] }
+  | { kind: "error"; message: string };
+
+const PROGRESS_EVERY_MS = 100;
+
+const post = (msg: ParseResponse) => self.postMessage(msg);
+
+/* Stream one file in chunks, parsing complete lines as they arrive and hashing the bytes. */
+async function parseFile(file: File, source: number, onBytes: (n: number) => void): Promise<{ entries: LogEntry[]; hash: string; diag: ParseDiagnostics }> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const hasher = contentHasher();
+  const diag = newParseDiagnostics();
+  const raw: LogEntry[] = [];
+  let rest = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    const text = done ? rest + decoder.decode() : rest + decoder.decode(value, { stream: true });
+    const lines = text.split(/\r?\n/);
+    rest = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      const e = parseLine(line, source, diag);
+      if (e) raw.push(e);
+    }
+    if (done) break;
+    hasher.update(value);
+    onBytes(value.byteLength);
+  }
+  return { entries: finalizeEntries(raw, diag), hash: hasher.digest(), diag };
+}
+
+self.onmessage = async (ev: MessageEvent<ParseRequest>) => {
+  const { files } = ev.data;
+  const total = files.reduce((s, f) => s + f.size, 0);
+  let loaded = 0, lastPost = 0;
+  try {
+    const results: LogEntry[][] = [];
+    const hashes: string[] = [];
+    const diagnostics: ParseDiagnostics[] = [];
+    for (let i = 0; i < files.length; i++) {
+      const { entries, hash, diag } = await parseFile(files[i], i, (n) => {
+        loaded += n;
+        const now = performance.now();
+        if (now - lastPost >= PROGRESS_EVERY_MS) { lastPost = now; post({ kind: "progress", loaded, total }); }
+      });
+      results.push(entries);
+      hashes.push(hash);
+      diagnostics.push(diag);
+    }
+    post({ kind: "progress", loaded: total, total });
+    post({ kind: "done", results, hashes, diagnostics });
+  } catch (err) {
+    post({ kind: "error", message: (err as Error).message });
+  }
+};
@@ -0,0 +1,108 @@
+// src/components/storage.ts
+// Viewer settings persisted in localStorage (the core modules stay storage-free)
+import { DEFAULT_ACTOR_MAPPING, type ActorMapping } from "../core/actors";
+import { DEFAULT_BBCODE_CONFIG, DIALECTS, type BBCodeConfig } from "../core/bbcode";
+import { DEFAULT_COMBAT_CONFIG, type CombatParserConfig } from "../core/combatParser";
+import { DEFAULT_REDACTION, type RedactionConfig } from "../core/redaction";
+import { DEFAULT_SEGMENTATION, type SegmentationConfig } from "../core/segmentation";
+
+const COMBAT_KEY = "dsl-log-viewer:combat-parser";
+
+export function loadCombatConfig(): CombatParserConfig {
+  try {
+    const raw = localStorage.getItem(COMBAT_KEY);
+    if (raw) {
+      const cfg = JSON.parse(raw) as CombatParserConfig;
+      if (Array.isArray(cfg.verbs) && typeof cfg.roundWindowMs === "number") return cfg;
+    }
+  } catch { /* fall back to defaults */ }
+  return DEFAULT_COMBAT_CONFIG;
+}
+
+export function saveCombatConfig(cfg: CombatParserConfig) {
+  try { localStorage.setItem(COMBAT_KEY, JSON.stringify(cfg)); } catch { /* storage full or disabled */ }
+}
+
+const BBCODE_KEY = "dsl-log-viewer:bbcode";
+
+export function loadBBCodeConfig(): BBCodeConfig {
+  try {
+    const raw = localStorage.getItem(BBCODE_KEY);
+    if (raw) {
+      const cfg = JSON.parse(raw) as BBCodeConfig;
+      if (DIALECTS.some((d) => d.id === cfg.dialect) && cfg.palette?.hex?.length === 16 && cfg.palette.names?.length === 16) return cfg;
+    }
+  } catch { /* fall back to defaults */ }
+  return DEFAULT_BBCODE_CONFIG;
+}
+
+export function saveBBCodeConfig(cfg: BBCodeConfig) {
+  try { localStorage.setItem(BBCODE_KEY, JSON.stringify(cfg)); } catch { /* storage full or disabled */ }
+}
+
+const SEGMENTATION_KEY = "dsl-log-viewer:segmentation";
+
+export function loadSegmentationConfig(): SegmentationConfig {
+  try {
+    const raw = localStorage.getItem(SEGMENTATION_KEY);
+    if (raw) {
+      const cfg = JSON.parse(raw) as SegmentationConfig;
+      if ((cfg.mode === "gap" || cfg.mode === "gmcp") && cfg.gapMs > 0) return cfg;
+    }
+  } catch { /* fall back to defaults */ }
+  return DEFAULT_SEGMENTATION;
+}
+
+export function saveSegmentationConfig(cfg: SegmentationConfig) {
+  try { localStorage.setItem(SEGMENTATION_KEY, JSON.stringify(cfg)); } catch { /* storage full or disabled */ }
+}
+
+const ACTORS_KEY = "dsl-log-viewer:actors";
+
+export function loadActorMapping(): ActorMapping {
+  try {
+    const raw = localStorage.getItem(ACTORS_KEY);
+    if (raw) {
+      const m = JSON.parse(raw) as ActorMapping;
+      if (Array.isArray(m.rules)) return m;
+    }
+  } catch { /* fall back to defaults */ }
+  return DEFAULT_ACTOR_MAPPING;
+}
+
+export function saveActorMapping(m: ActorMapping) {
+  try { localStorage.setItem(ACTORS_KEY, JSON.stringify(m)); } catch { /* storage full or disabled */ }
+}
+
+const REDACTION_KEY = "dsl-log-viewer:redaction";
+
+export function loadRedactionConfig(): RedactionConfig {
+  try {
+    const raw = localStorage.getItem(REDACTION_KEY);
+    if (raw) {
+      const cfg = JSON.parse(raw) as RedactionConfig;
+      if (Array.isArray(cfg.names) && Array.isArray(cfg.rules)) return cfg;
+    }
+  } catch { /* fall back to defaults */ }
+  return DEFAULT_REDACTION;
+}
+
+export function saveRedactionConfig(cfg: RedactionConfig) {
+  try { localStorage.setItem(REDACTION_KEY, JSON.stringify(cfg)); } catch { /* storage full or disabled */ }
+}
+
+const LIBRARY_CAP_KEY = "dsl-log-viewer:library-cap-mb";
+
+export const DEFAULT_LIBRARY_CAP_MB = 200;
+
+export function loadLibraryCapMb(): number {
+  try {
+    const n = Number(localStorage.getItem(LIBRARY_CAP_KEY));
+    if (n > 0) return n;
+  } catch { /* fall back to defaults */ }
+  return DEFAULT_LIBRARY_CAP_MB;
+}
+
+export function saveLibraryCapMb(mb: number) {
+  try { localStorage.setItem(LIBRARY_CAP_KEY, String(mb)); } catch { /* storage full or disabled */ }
+}
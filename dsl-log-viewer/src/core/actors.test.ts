@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ACTOR_MAPPING, actorResolver, knownActors, parseActorMapping } from "./actors";
+import { dmg, entriesOf, hit, round } from "./testLog";
+
+describe("actorResolver", () => {
+  const r = actorResolver({
+    rules: [
+      { name: "You", alias: "Bob", tag: "party" },
+      { name: "Bob", tag: "party" },
+      { name: "wolf", owner: "you" },
+      { name: "Ping", alias: "Pong" },
+      { name: "Pong", alias: "Ping" },
+      { name: "troll", tag: "enemy" },
+    ],
+    partyOnly: false,
+  });
+
+  it("follows aliases and pet owners, case-insensitively", () => {
+    expect(r.name("You")).toBe("Bob");
+    expect(r.name("[ Grp ] you")).toBe("Bob");
+    expect(r.name("Wolf")).toBe("Bob");
+    expect(r.tag("wolf")).toBe("party");
+    expect(r.name("Zed")).toBe("Zed");
+    expect(r.tag("troll")).toBe("enemy");
+  });
+
+  it("stops on alias loops", () => {
+    expect(["Ping", "Pong"]).toContain(r.name("Ping"));
+  });
+
+  it("merges rows and events under the canonical name", () => {
+    const p = r.payload({
+      ...round(hit("You", "troll", 3), hit("wolf", "troll", 2)),
+      bySource: [
+        { actor: "You", totalAsSource: 3, totalAsTarget: 0, countAsSource: 1, countAsTarget: 0 },
+        { actor: "wolf", totalAsSource: 2, totalAsTarget: 0, countAsSource: 1, countAsTarget: 0 },
+      ],
+    });
+    expect(p.events?.map((e) => e.source)).toEqual(["Bob", "Bob"]);
+    expect(p.bySource).toEqual([{ actor: "Bob", totalAsSource: 5, totalAsTarget: 0, countAsSource: 2, countAsTarget: 0 }]);
+  });
+
+  it("keeps party damage when only the alias or pet rule is tagged", () => {
+    const party = actorResolver({ rules: [{ name: "You", alias: "Hero", tag: "party" }, { name: "wolf", owner: "You" }], partyOnly: true });
+    expect(party.tag("Hero")).toBe("party");
+    const p = party.payload({
+      ...round(hit("You", "troll", 4), hit("wolf", "troll", 2), hit("Ann", "troll", 6)),
+      bySource: [
+        { actor: "You", totalAsSource: 4, totalAsTarget: 0, countAsSource: 1, countAsTarget: 0 },
+        { actor: "wolf", totalAsSource: 2, totalAsTarget: 0, countAsSource: 1, countAsTarget: 0 },
+        { actor: "Ann", totalAsSource: 6, totalAsTarget: 0, countAsSource: 1, countAsTarget: 0 },
+      ],
+    });
+    expect(p.events?.map((e) => e.source)).toEqual(["Hero", "Hero"]);
+    expect(p.bySource).toEqual([{ actor: "Hero", totalAsSource: 6, totalAsTarget: 0, countAsSource: 2, countAsTarget: 0 }]);
+    expect(p).toMatchObject({ totalDamage: 6, hits: 2, misses: 0 });
+  });
+
+    it("is the identity without rules", () => {
+    const p = round(hit("Bob", "troll", 1));
+    expect(actorResolver(DEFAULT_ACTOR_MAPPING).payload(p)).toBe(p);
+  });
+
+  it("counts only party damage in party-only mode", () => {
+    const party = actorResolver({ rules: [{ name: "Bob", tag: "party" }], partyOnly: true });
+    const p = party.payload(round(hit("Bob", "troll", 4), hit("Ann", "troll", 6), hit("Bob", "troll", 0)));
+    expect(p.events?.map((e) => e.source)).toEqual(["Bob", "Bob"]);
+    expect(p).toMatchObject({ totalDamage: 4, hits: 1, misses: 1 });
+  });
+});
+
+describe("knownActors", () => {
+  it("lists actors by damage dealt", () => {
+    const entries = entriesOf([dmg(0, round(hit("Ann", "troll", 2), hit("Bob", "troll", 5)))]);
+    expect(knownActors(entries)).toEqual([{ name: "Bob", dealt: 5 }, { name: "Ann", dealt: 2 }, { name: "troll", dealt: 0 }]);
+  });
+});
+
+describe("parseActorMapping", () => {
+  it("reads an exported mapping and drops unknown tags", () => {
+    const m = parseActorMapping(JSON.stringify({ rules: [{ name: "You", alias: "Bob", tag: "boss" }], partyOnly: true }));
+    expect(m).toEqual({ rules: [{ name: "You", alias: "Bob", owner: undefined, tag: undefined }], partyOnly: true });
+  });
+
+  it("rejects other JSON", () => {
+    expect(() => parseActorMapping("{}")).toThrow(/no rules/);
+    expect(() => parseActorMapping(JSON.stringify({ rules: [{}] }))).toThrow(/name/);
+  });
+});
@@ -0,0 +1,145 @@
+// src/core/actors.ts
+import { normalizeActor, type DamageActorRow, type DamageEvent, type DamagePayload } from "./damage";
+import { entryDamage } from "./entryTypes";
+import type { LogEntry } from "./logParser";
+
+export type ActorTag = "party" | "ally" | "enemy";
+export const ACTOR_TAGS: ActorTag[] = ["party", "ally", "enemy"];
+
+/* One actor name as it appears in the log (after the "[ … ]" prefix is stripped), matched case-insensitively */
+export interface ActorRule {
+  name: string;
+  alias?: string; // report under this name instead ("You" → the character's name)
+  owner?: string; // pet or summon: its damage counts for this actor
+  tag?: ActorTag;
+}
+
+export interface ActorMapping {
+  rules: ActorRule[];
+  partyOnly: boolean; // rounds and summaries only count damage dealt by party members
+}
+
+export const DEFAULT_ACTOR_MAPPING: ActorMapping = { rules: [], partyOnly: false };
+
+export interface ActorResolver {
+  name: (raw: string) => string;               // canonical name
+  tag: (raw: string) => ActorTag | undefined;
+  payload: (p: DamagePayload) => DamagePayload; // names rewritten, merged rows summed, party filter applied
+}
+
+const MAX_HOPS = 8; // alias/owner chains longer than this (or looping) stop where they are
+
+function mergeRows(rows: DamageActorRow[], name: (raw: string) => string, keep: (n: string) => boolean): DamageActorRow[] {
+  const out = new Map<string, DamageActorRow>();
+  for (const r of rows) {
+    const actor = name(r.actor || "");
+    if (!keep(actor)) continue;
+    const cur = out.get(actor);
+    if (!cur) { out.set(actor, { ...r, actor }); continue; }
+    cur.totalAsSource += r.totalAsSource || 0;
+    cur.totalAsTarget += r.totalAsTarget || 0;
+    cur.countAsSource += r.countAsSource || 0;
+    cur.countAsTarget += r.countAsTarget || 0;
+  }
+  return [...out.values()];
+}
+
+export function actorResolver(m: ActorMapping): ActorResolver {
+  const rules = new Map(m.rules.filter((r) => r.name.trim()).map((r) => [r.name.trim().toLowerCase(), r]));
+  const walk = (start: string) => {
+    let name = start;
+    let tag: ActorTag | undefined;
+    for (let hop = 0; hop < MAX_HOPS; hop++) {
+      const rule = rules.get(name.toLowerCase());
+      if (!rule) break;
+      tag = rule.tag ?? tag;
+      const next = (rule.owner || rule.alias || "").trim();
+      if (!next || next.toLowerCase() === name.toLowerCase()) break;
+      name = next;
+    }
+    return { name, tag };
+  };
+  // a tag met on the way to a canonical name belongs to that name too, so the party
+  // filter (which sees canonical names) agrees with the rule that carried it
+  const carried = new Map<string, ActorTag>();
+  for (const key of rules.keys()) {
+    const w = walk(key);
+    if (w.tag && !carried.has(w.name.toLowerCase())) carried.set(w.name.toLowerCase(), w.tag);
+  }
+  const resolved = new Map<string, { name: string; tag?: ActorTag }>();
+  const resolve = (raw: string) => {
+    const start = normalizeActor(raw);
+    let hit = resolved.get(start);
+    if (hit) return hit;
+    const w = walk(start);
+    hit = { name: w.name, tag: w.tag ?? carried.get(w.name.toLowerCase()) };
+    resolved.set(start, hit);
+    return hit;
+  };
+  const name = (raw: string) => resolve(raw).name;
+  const tag = (raw: string) => resolve(raw).tag;
+
+  if (!rules.size && !m.partyOnly) return { name, tag, payload: (p) => p };
+
+  const keep = (n: string) => !m.partyOnly || tag(n) === "party";
+  const cache = new WeakMap<DamagePayload, DamagePayload>();
+  const payload = (p: DamagePayload): DamagePayload => {
+    let out = cache.get(p);
+    if (out) return out;
+    const events: DamageEvent[] | undefined = p.events
+      ?.map((e) => ({ ...e, source: name(e.source || ""), target: name(e.target || "") }))
+      .filter((e) => keep(e.source));
+    const bySource = p.bySource && mergeRows(p.bySource, name, keep);
+    const byTarget = p.byTarget && mergeRows(p.byTarget, name, keep);
+    out = { ...p, events, bySource, byTarget };
+    if (m.partyOnly) {
+      // the round header shows what the party did
+      if (bySource?.length) {
+        out.totalDamage = bySource.reduce((s, r) => s + (r.totalAsSource || 0), 0);
+        out.hits = bySource.reduce((s, r) => s + (r.countAsSource || 0), 0);
+      } else if (events) {
+        const hits = events.filter((e) => (e.amount ?? 0) > 0);
+        out.totalDamage = hits.reduce((s, e) => s + e.amount, 0);
+        out.hits = hits.length;
+      }
+      if (events) out.misses = events.length - events.filter((e) => (e.amount ?? 0) > 0).length;
+    }
+    cache.set(p, out);
+    return out;
+  };
+  return { name, tag, payload };
+}
+
+/* Every actor name in the log's damage rounds, most damage dealt first */
+export function knownActors(entries: LogEntry[]): { name: string; dealt: number }[] {
+  const dealt = new Map<string, number>();
+  const see = (raw: string, n = 0) => {
+    const name = normalizeActor(raw || "");
+    if (name) dealt.set(name, (dealt.get(name) ?? 0) + n);
+  };
+  for (const e of entries) {
+    const p = entryDamage(e);
+    if (!p) continue;
+    for (const r of p.bySource ?? []) see(r.actor, r.totalAsSource || 0);
+    for (const r of p.byTarget ?? []) see(r.actor);
+    for (const ev of p.events ?? []) { see(ev.source, p.bySource?.length ? 0 : ev.amount || 0); see(ev.target); }
+  }
+  return [...dealt.entries()].map(([name, n]) => ({ name, dealt: n })).sort((a, b) => b.dealt - a.dealt || a.name.localeCompare(b.name));
+}
+
+/* Mapping JSON as exported by the viewer (also read by the CLI's --actors) */
+export function parseActorMapping(text: string): ActorMapping {
+  const obj = JSON.parse(text);
+  if (!obj || !Array.isArray(obj.rules)) throw new Error("not an actor mapping (no rules)");
+  const rules: ActorRule[] = [];
+  for (const r of obj.rules) {
+    if (!r || typeof r.name !== "string") throw new Error("every rule needs a name");
+    rules.push({
+      name: r.name,
+      alias: typeof r.alias === "string" && r.alias ? r.alias : undefined,
+      owner: typeof r.owner === "string" && r.owner ? r.owner : undefined,
+      tag: ACTOR_TAGS.includes(r.tag) ? r.tag : undefined,
+    });
+  }
+  return { rules, partyOnly: obj.partyOnly === true };
+}
@@ -0,0 +1,106 @@
+// src/core/ansi.ts
+
+// eslint-disable-next-line no-control-regex
+export const ANSI_RE = /\x1b\[[0-9;]*[A-Za-z]/g;
+export const stripAnsi = (s: string) => s.replace(ANSI_RE, "");
+
+/* SGR (color/attribute) state, tracked across the escape sequences of a line */
+export type AnsiColor = number | string; // 0-255 palette index, or "#rrggbb"
+export interface SgrState {
+  bold: boolean;
+  underline: boolean;
+  fg: AnsiColor | null;
+  bg: AnsiColor | null;
+}
+export const sgrReset = (): SgrState => ({ bold: false, underline: false, fg: null, bg: null });
+
+const hex2 = (n: number) => Math.max(0, Math.min(255, n | 0)).toString(16).padStart(2, "0");
+
+/* Apply one SGR parameter list ("1;31" → [1, 31]) to the state. */
+export function applySgr(st: SgrState, codes: number[]): void {
+  for (let i = 0; i < codes.length; i++) {
+    const c = codes[i] || 0;
+    if (c === 0) Object.assign(st, sgrReset());
+    else if (c === 1) st.bold = true;
+    else if (c === 22) st.bold = false;
+    else if (c === 4) st.underline = true;
+    else if (c === 24) st.underline = false;
+    else if (c >= 30 && c <= 37) st.fg = c - 30;
+    else if (c === 39) st.fg = null;
+    else if (c >= 90 && c <= 97) st.fg = c - 90 + 8;
+    else if (c >= 40 && c <= 47) st.bg = c - 40;
+    else if (c === 49) st.bg = null;
+    else if (c >= 100 && c <= 107) st.bg = c - 100 + 8;
+    else if (c === 38 || c === 48) {
+      let col: AnsiColor | null = null;
+      if (codes[i + 1] === 5) { col = codes[i + 2] ?? 0; i += 2; }
+      else if (codes[i + 1] === 2) { col = `#${hex2(codes[i + 2])}${hex2(codes[i + 3])}${hex2(codes[i + 4])}`; i += 4; }
+      if (col !== null) { if (c === 38) st.fg = col; else st.bg = col; }
+    }
+  }
+}
+
+/* Bold on a basic color is how DSL asks for the bright variant ("1;30" is dark grey) */
+export const effectiveFg = (st: SgrState): AnsiColor | null =>
+  st.bold && typeof st.fg === "number" && st.fg < 8 ? st.fg + 8 : st.fg;
+
+/* Split a line into runs of text with the SGR state in effect for each run. */
+export function sgrSegments(line: string, st: SgrState = sgrReset()): { text: string; st: SgrState }[] {
+  // eslint-disable-next-line no-control-regex
+  const esc = /\x1b\[([0-9;]*)([A-Za-z])/g;
+  const out: { text: string; st: SgrState }[] = [];
+  let last = 0, m: RegExpExecArray | null;
+  while ((m = esc.exec(line))) {
+    if (m.index > last) out.push({ text: line.slice(last, m.index), st: { ...st } });
+    if (m[2] === "m") applySgr(st, m[1].split(";").map(Number));
+    last = esc.lastIndex;
+  }
+  if (last < line.length) out.push({ text: line.slice(last), st: { ...st } });
+  return out;
+}
+
+/* xterm's default 256-color palette as hex */
+const BASE16 = [
+  "#000000", "#cd0000", "#00cd00", "#cdcd00", "#0000ee", "#cd00cd", "#00cdcd", "#e5e5e5",
+  "#7f7f7f", "#ff0000", "#00ff00", "#ffff00", "#5c5cff", "#ff00ff", "#00ffff", "#ffffff",
+];
+export function xtermHex(n: number): string {
+  if (n < 16) return BASE16[Math.max(0, n)];
+  if (n < 232) {
+    const i = n - 16, steps = [0, 95, 135, 175, 215, 255];
+    return `#${hex2(steps[Math.floor(i / 36)])}${hex2(steps[Math.floor(i / 6) % 6])}${hex2(steps[i % 6])}`;
+  }
+  const g = 8 + (Math.min(n, 255) - 232) * 10;
+  return `#${hex2(g)}${hex2(g)}${hex2(g)}`;
+}
+export const colorHex = (c: AnsiColor) => (typeof c === "number" ? xtermHex(c) : c);
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const h = hex.replace("#", "");
+  const full = h.length === 3 ? h.split("").map((x) => x + x).join("") : h;
+  const n = parseInt(full, 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+const saturation = ([r, g, b]: [number, number, number]) => {
+  const max = Math.max(r, g, b);
+  return max ? (max - Math.min(r, g, b)) / max : 0;
+};
+
+/* Index of the palette entry closest to `hex` by RGB distance. A clearly colored input only
+   considers colored entries, so muted 256-color shades don't collapse to grey. */
+export function nearestColor(hex: string, palette: string[]): number {
+  const rgb = hexToRgb(hex);
+  const chromatic = saturation(rgb) > 0.25;
+  let best = 0, bestD = Infinity;
+  for (const pass of chromatic ? [true, false] : [false]) {
+    palette.forEach((p, i) => {
+      const prgb = hexToRgb(p);
+      if (pass && saturation(prgb) <= 0.25) return;
+      const d = (rgb[0] - prgb[0]) ** 2 + (rgb[1] - prgb[1]) ** 2 + (rgb[2] - prgb[2]) ** 2;
+      if (d < bestD) { bestD = d; best = i; }
+    });
+    if (bestD < Infinity) break;
+  }
+  return best;
+}
@@ -0,0 +1,19 @@
+/* Golden corpus for ansiToBBCode: dsl-message payloads copied verbatim from DSL logs,
+   with the expected output in both dialects. Only captured lines go here; constructed
+   SGR cases live in bbcode.test.ts. */
+
+export interface GoldenLine {
+  name: string;
+  ansi: string;
+  named: string;
+  hex: string;
+}
+
+export const BBCODE_GOLDEN: GoldenLine[] = [
+  {
+    name: "channel line (README log format sample): bold black speaker inside red brackets",
+    ansi: "\x1b[0m[ IMPLEMENTOR ] \x1b[0;31m[ \x1b[1;30mChaos \x1b[0;31m]\x1b[0m Scorn. \x1b[0m",
+    named: "[ IMPLEMENTOR ] [COLOR=DARKRED][ [/COLOR][COLOR=GRAY]Chaos [/COLOR][COLOR=DARKRED]][/COLOR] Scorn. ",
+    hex: "[ IMPLEMENTOR ] [COLOR=#CD0000][ [/COLOR][COLOR=#7F7F7F]Chaos [/COLOR][COLOR=#CD0000]][/COLOR] Scorn. ",
+  },
+];
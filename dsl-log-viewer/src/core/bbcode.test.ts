@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BBCODE_CONFIG, ansiToBBCode } from "./bbcode";
+import { BBCODE_GOLDEN } from "./bbcode.golden";
+
+const convert = (ansi: string, dialect: "named" | "hex") => ansiToBBCode(ansi, { ...DEFAULT_BBCODE_CONFIG, dialect });
+
+describe("ansiToBBCode golden corpus", () => {
+  for (const g of BBCODE_GOLDEN) {
+    it(g.name, () => {
+      expect(convert(g.ansi, "named")).toBe(g.named);
+      expect(convert(g.ansi, "hex")).toBe(g.hex);
+    });
+  }
+});
+
+// [name, ansi, named, hex]
+const CASES: [string, string, string, string][] = [
+  ["bold basic colors turn bright",
+    "\x1b[1;31mYou are bleeding!\x1b[0m \x1b[1;33mGold\x1b[0m \x1b[1;37mWhite\x1b[0m",
+    "[COLOR=RED]You are bleeding![/COLOR] [COLOR=YELLOW]Gold[/COLOR] [COLOR=WHITE]White[/COLOR]",
+    "[COLOR=#FF0000]You are bleeding![/COLOR] [COLOR=#FFFF00]Gold[/COLOR] [COLOR=#FFFFFF]White[/COLOR]"],
+  ["bold black is dark grey",
+    "\x1b[1;30mA shadowy figure\x1b[0m lurks here.",
+    "[COLOR=GRAY]A shadowy figure[/COLOR] lurks here.",
+    "[COLOR=#7F7F7F]A shadowy figure[/COLOR] lurks here."],
+  ["plain text stays untagged",
+    "The Temple Square",
+    "The Temple Square",
+    "The Temple Square"],
+  ["background colors",
+    "\x1b[37;44m[ INFO ]\x1b[0m Reboot in 5 minutes. \x1b[1;33;41mWARNING\x1b[0m",
+    "[COLOR=SILVER][ INFO ][/COLOR] Reboot in 5 minutes. [COLOR=YELLOW]WARNING[/COLOR]",
+    "[BGCOLOR=#0000EE][COLOR=#E5E5E5][ INFO ][/COLOR][/BGCOLOR] Reboot in 5 minutes. [BGCOLOR=#CD0000][COLOR=#FFFF00]WARNING[/COLOR][/BGCOLOR]"],
+  ["256-color foreground",
+    "\x1b[38;5;61mA purple haze\x1b[0m and \x1b[38;5;208morange flames\x1b[0m",
+    "[COLOR=BLUE]A purple haze[/COLOR] and [COLOR=OLIVE]orange flames[/COLOR]",
+    "[COLOR=#5F5FAF]A purple haze[/COLOR] and [COLOR=#FF8700]orange flames[/COLOR]"],
+  ["256-color background",
+    "\x1b[48;5;236m \x1b[38;5;250mgrey on charcoal \x1b[0m",
+    " [COLOR=SILVER]grey on charcoal [/COLOR]",
+    "[BGCOLOR=#303030] [COLOR=#BCBCBC]grey on charcoal [/COLOR][/BGCOLOR]"],
+  ["truecolor",
+    "\x1b[38;2;255;0;0mPure red\x1b[0m \x1b[38;2;10;200;10;48;2;0;0;128mGreen on navy\x1b[0m",
+    "[COLOR=RED]Pure red[/COLOR] [COLOR=GREEN]Green on navy[/COLOR]",
+    "[COLOR=#FF0000]Pure red[/COLOR] [BGCOLOR=#000080][COLOR=#0AC80A]Green on navy[/COLOR][/BGCOLOR]"],
+  ["underline and resets mid-line",
+    "\x1b[4;36mquest log\x1b[24m updated\x1b[0m.",
+    "[COLOR=TEAL][U]quest log[/U] updated[/COLOR].",
+    "[COLOR=#00CDCD][U]quest log[/U] updated[/COLOR]."],
+  ["bracketed tags with colors that close before ]",
+    "\x1b[0;32m[\x1b[1;32mCLAN\x1b[0;32m]\x1b[0m Bob: \x1b[0;37mhi ]\x1b[0m",
+    "[COLOR=GREEN][[/COLOR][COLOR=LIME]CLAN[/COLOR][COLOR=GREEN]][/COLOR] Bob: [COLOR=SILVER]hi ][/COLOR]",
+    "[COLOR=#00CD00][[/COLOR][COLOR=#00FF00]CLAN[/COLOR][COLOR=#00CD00]][/COLOR] Bob: [COLOR=#E5E5E5]hi ][/COLOR]"],
+];
+
+describe("ansiToBBCode", () => {
+  for (const [name, ansi, named, hex] of CASES) {
+    it(name, () => {
+      expect(convert(ansi, "named")).toBe(named);
+      expect(convert(ansi, "hex")).toBe(hex);
+    });
+  }
+});
@@ -0,0 +1,86 @@
+// src/core/bbcode.ts
+import { colorHex, effectiveFg, nearestColor, sgrSegments, xtermHex, type AnsiColor, type SgrState } from "./ansi";
+
+/* Forums differ in what [COLOR] accepts: some only know color names, others take hex
+   and also have a background tag. */
+export type BBCodeDialectId = "named" | "hex";
+
+export interface BBCodeDialect {
+  id: BBCodeDialectId;
+  label: string;
+  bgTag: string | null; // background tag, or null when the forum has none
+}
+
+export const DIALECTS: BBCodeDialect[] = [
+  { id: "named", label: "Named colors", bgTag: null },
+  { id: "hex", label: "Hex colors + background", bgTag: "BGCOLOR" },
+];
+
+/* The 16 base ANSI colors (0–7 normal, 8–15 bright): the hex each renders as, and the name
+   used by named-color forums. 256-color and truecolor codes map to the nearest entry there. */
+export interface BBCodePalette {
+  hex: string[];
+  names: string[];
+}
+
+export interface BBCodeConfig {
+  dialect: BBCodeDialectId;
+  palette: BBCodePalette;
+}
+
+export const DEFAULT_BBCODE_CONFIG: BBCodeConfig = {
+  dialect: "named",
+  palette: {
+    hex: Array.from({ length: 16 }, (_, i) => xtermHex(i)),
+    names: [
+      "BLACK", "DARKRED", "GREEN", "OLIVE", "NAVY", "PURPLE", "TEAL", "SILVER",
+      "GRAY", "RED", "LIME", "YELLOW", "BLUE", "MAGENTA", "CYAN", "WHITE",
+    ],
+  },
+};
+
+// Tag value for one color in the configured dialect
+function colorValue(c: AnsiColor, cfg: BBCodeConfig): string {
+  const { hex, names } = cfg.palette;
+  if (cfg.dialect === "hex") return (typeof c === "number" && c < 16 ? hex[c] : colorHex(c)).toUpperCase();
+  const i = typeof c === "number" && c < 16 ? c : nearestColor(colorHex(c), hex);
+  return names[i] || hex[i];
+}
+
+// Tags to open for a run, outermost first; closed in reverse
+function tagsFor(st: SgrState, cfg: BBCodeConfig): [string, string][] {
+  const tags: [string, string][] = [];
+  const bgTag = DIALECTS.find((d) => d.id === cfg.dialect)?.bgTag;
+  if (bgTag && st.bg !== null) tags.push([bgTag, colorValue(st.bg, cfg)]);
+  const fg = effectiveFg(st);
+  if (fg !== null) tags.push(["COLOR", colorValue(fg, cfg)]);
+  if (st.underline) tags.push(["U", ""]);
+  return tags;
+}
+
+const open = ([tag, v]: [string, string]) => (v ? `[${tag}=${v}]` : `[${tag}]`);
+const close = ([tag]: [string, string]) => `[/${tag}]`;
+// Leading tags two runs share (same tag and value), which stay open between them
+function sharedPrefix(a: [string, string][], b: [string, string][]): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n][0] === b[n][0] && a[n][1] === b[n][1]) n++;
+  return n;
+}
+
+/* ANSI → BBCode with full SGR state: bold turns basic colors bright, backgrounds are kept
+   where the dialect has a tag for them, and 256/truecolor go through the palette.
+   Tags shared with the previous run stay open (only what changed is closed and reopened);
+   empty runs never open a tag. */
+export function ansiToBBCode(line: string, cfg: BBCodeConfig = DEFAULT_BBCODE_CONFIG): string {
+  let out = "";
+  let cur: [string, string][] = [];
+  for (const { text, st } of sgrSegments(line)) {
+    if (!text) continue;
+    const next = tagsFor(st, cfg);
+    const keep = sharedPrefix(cur, next);
+    out += cur.slice(keep).reverse().map(close).join("") + next.slice(keep).map(open).join("");
+    cur = next;
+    out += text;
+  }
+  return out + [...cur].reverse().map(close).join("");
+}
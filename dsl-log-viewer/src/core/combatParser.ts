@@ -0,0 +1,135 @@
+// src/core/combatParser.ts
+import type { DamageEvent, DamagePayload } from "./damage";
+
+/* One damage verb: every spelling it appears with in the game text, and the damage
+   range it stands for. `forms` are matched case-insensitively as whole words. */
+export interface VerbRange {
+  key: string;
+  forms: string[];
+  min: number;
+  max: number;
+}
+
+export interface CombatParserConfig {
+  verbs: VerbRange[];
+  roundWindowMs: number; // combat lines closer than this belong to the same round
+}
+
+/* Default table follows the stock ROM damage messages DSL is built on. */
+export const DEFAULT_COMBAT_CONFIG: CombatParserConfig = {
+  roundWindowMs: 1500,
+  verbs: [
+    { key: "miss", forms: ["miss", "misses"], min: 0, max: 0 },
+    { key: "scratch", forms: ["scratch", "scratches"], min: 1, max: 4 },
+    { key: "graze", forms: ["graze", "grazes"], min: 5, max: 8 },
+    { key: "hit", forms: ["hit", "hits"], min: 9, max: 12 },
+    { key: "injure", forms: ["injure", "injures"], min: 13, max: 16 },
+    { key: "wound", forms: ["wound", "wounds"], min: 17, max: 20 },
+    { key: "maul", forms: ["maul", "mauls"], min: 21, max: 24 },
+    { key: "decimate", forms: ["decimate", "decimates"], min: 25, max: 28 },
+    { key: "devastate", forms: ["devastate", "devastates"], min: 29, max: 32 },
+    { key: "maim", forms: ["maim", "maims"], min: 33, max: 36 },
+    { key: "mutilate", forms: ["mutilate", "mutilates"], min: 37, max: 40 },
+    { key: "disembowel", forms: ["disembowel", "disembowels"], min: 41, max: 44 },
+    { key: "dismember", forms: ["dismember", "dismembers"], min: 45, max: 48 },
+    { key: "massacre", forms: ["massacre", "massacres"], min: 49, max: 52 },
+    { key: "mangle", forms: ["mangle", "mangles"], min: 53, max: 56 },
+    { key: "*** demolish ***", forms: ["*** demolish ***", "*** demolishes ***"], min: 57, max: 60 },
+    { key: "*** devastate ***", forms: ["*** devastate ***", "*** devastates ***"], min: 61, max: 75 },
+    { key: "=== obliterate ===", forms: ["=== obliterate ===", "=== obliterates ==="], min: 76, max: 100 },
+    { key: ">>> annihilate <<<", forms: [">>> annihilate <<<", ">>> annihilates <<<"], min: 101, max: 125 },
+    { key: "<<< eradicate >>>", forms: ["<<< eradicate >>>", "<<< eradicates >>>"], min: 126, max: 150 },
+    { key: "unspeakable", forms: ["do UNSPEAKABLE things to", "does UNSPEAKABLE things to"], min: 151, max: 200 },
+  ],
+};
+
+/* A text line on the log clock */
+export interface TextLine {
+  ts: number; // absolute ms
+  text: string; // ANSI-stripped
+}
+
+export interface EstimatedRound {
+  ts: number; // absolute ms of the round's last line
+  payload: DamagePayload;
+}
+
+const MAX_NAME_WORDS = 6;
+const CHAT_RE = /\b(says?|tells?|asks?|yells?|shouts?|whispers?|gossips?|replies|answers?|emotes?)\b/i;
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const words = (s: string) => s.trim().split(/\s+/).length;
+
+export interface CompiledTable {
+  re: RegExp;
+  byForm: Map<string, VerbRange>;
+}
+
+export function compileTable(verbs: VerbRange[]): CompiledTable | null {
+  const byForm = new Map<string, VerbRange>();
+  for (const v of verbs) for (const f of v.forms) if (f.trim()) byForm.set(f.trim().toLowerCase(), v);
+  if (!byForm.size) return null;
+  // Greedy subject takes the LAST verb on the line ("The goblin's hit wounds you."), and
+  // subject/victim must end/start with a word character so "*** devastates ***" is taken whole.
+  const alts = [...byForm.keys()].sort((a, b) => b.length - a.length).map(escapeRe);
+  return { re: new RegExp(`^(.*\\w) (${alts.join("|")}) (\\w.*?)([.!]+)$`, "i"), byForm };
+}
+
+/* "Your slash" → You, "The goblin's bite" → The goblin, "You" → You, else the whole subject. */
+function parseSubject(subject: string): string {
+  if (/^you$/i.test(subject)) return "You";
+  if (/^your\s/i.test(subject)) return "You";
+  const m = /^(.+?)'s\s/.exec(subject);
+  return m ? m[1] : subject;
+}
+
+/* Recognize one combat line, or null. Exported for the verb table editor's preview. */
+export function parseCombatLine(text: string, table: CompiledTable | null): DamageEvent | null {
+  if (!table) return null;
+  const line = text.trim();
+  if (!line || line.startsWith("[") || CHAT_RE.test(line)) return null;
+  const m = table.re.exec(line);
+  if (!m) return null;
+  const [, subject, form, victimRaw] = m;
+  if (words(subject) > MAX_NAME_WORDS || words(victimRaw) > MAX_NAME_WORDS) return null;
+
+  const verb = table.byForm.get(form.toLowerCase());
+  if (!verb) return null;
+  const source = parseSubject(subject);
+  const target = /^you$/i.test(victimRaw) ? "You" : /^(yourself|himself|herself|itself)$/i.test(victimRaw) ? source : victimRaw;
+  const amount = verb.max <= 0 ? 0 : Math.max(1, Math.round((verb.min + verb.max) / 2));
+  return { raw: line, source, target, verbKey: verb.key, amount };
+}
+
+function toPayload(events: DamageEvent[]): DamagePayload {
+  const hits = events.filter((e) => e.amount > 0);
+  return {
+    totalDamage: hits.reduce((s, e) => s + e.amount, 0),
+    hits: hits.length,
+    misses: events.length - hits.length,
+    events,
+    estimated: true,
+  };
+}
+
+/* Group recognized combat lines into estimated damage rounds. */
+export function deriveDamageRounds(lines: TextLine[], cfg: CombatParserConfig): EstimatedRound[] {
+  const table = compileTable(cfg.verbs);
+  if (!table) return [];
+  const rounds: EstimatedRound[] = [];
+  let cur: DamageEvent[] = [];
+  let lastTs = -Infinity;
+
+  for (const l of lines) {
+    const ev = parseCombatLine(l.text, table);
+    if (!ev) continue;
+    if (cur.length && l.ts - lastTs > cfg.roundWindowMs) {
+      rounds.push({ ts: lastTs, payload: toPayload(cur) });
+      cur = [];
+    }
+    cur.push(ev);
+    lastTs = l.ts;
+  }
+  if (cur.length) rounds.push({ ts: lastTs, payload: toPayload(cur) });
+  return rounds;
+}
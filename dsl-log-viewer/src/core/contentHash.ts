@@ -0,0 +1,24 @@
+// src/core/contentHash.ts
+
+/* Incremental cyrb53 over raw bytes: identifies a log file for per-file storage without
+   holding the whole file. Not cryptographic; byte length is folded in to cut collisions. */
+export function contentHasher() {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57, length = 0;
+  return {
+    update(bytes: Uint8Array) {
+      for (let i = 0; i < bytes.length; i++) {
+        h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+        h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+      }
+      length += bytes.length;
+    },
+    digest(): string {
+      let a = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+      a ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+      let b = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+      b ^= Math.imul(a ^ (a >>> 13), 3266489909);
+      const h = 4294967296 * (2097151 & b) + (a >>> 0);
+      return `${length.toString(16)}-${h.toString(16)}`;
+    },
+  };
+}
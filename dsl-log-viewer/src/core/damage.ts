@@ -0,0 +1,179 @@
+// src/core/damage.ts
+
+export interface DamageActorRow {
+  actor: string;
+  totalAsSource: number;
+  totalAsTarget: number;
+  countAsSource: number; // hits as source
+  countAsTarget: number;
+}
+
+export interface DamageEvent {
+  raw: string;
+  source: string;
+  target: string;
+  verbKey: string;
+  amount: number; // 0 => miss
+}
+
+export interface DamagePayload {
+  totalDamage: number;
+  hits: number;
+  misses: number;
+  events?: DamageEvent[];
+  bySource?: DamageActorRow[];
+  byTarget?: DamageActorRow[];
+  estimated?: boolean; // derived from message text, not logged by the client
+}
+
+/* A damage entry on the log clock */
+export interface DamageRound {
+  ts: number; // absolute ms
+  payload: DamagePayload;
+}
+
+export const FIVE_MIN_MS = 5 * 60 * 1000;
+export const FIGHT_TAIL_MS = 5000; // a fight range keeps the death/loot lines after its last round
+
+/* Strip the first leading "[ … ] " prefix, if present. */
+export function normalizeActor(name: string): string {
+  return (name || "").replace(/^\s*\[[^\]]*]\s*/, "");
+}
+
+/* number → 1-decimal, drop trailing .0 */
+export function fmt1(n: number): string {
+  const v = Math.round((n ?? 0) * 10) / 10;
+  return Number.isFinite(v) ? (v % 1 === 0 ? String(v) : v.toFixed(1)) : "0";
+}
+
+/* Build per-round per-source lines */
+export function buildRoundPerSourceLines(p: DamagePayload): string[] {
+  const per = new Map<string, { damage: number; hits: number; misses: number }>();
+  const hasBySource = !!(p.bySource && p.bySource.length);
+
+  if (hasBySource) {
+    for (const row of p.bySource!) {
+      const name = normalizeActor(row.actor || "");
+      const cur = per.get(name) ?? { damage: 0, hits: 0, misses: 0 };
+      cur.damage += row.totalAsSource || 0;
+      cur.hits += row.countAsSource || 0;
+      per.set(name, cur);
+    }
+  }
+
+  if (p.events && p.events.length) {
+    for (const ev of p.events) {
+      const name = normalizeActor(ev.source || "");
+      const cur = per.get(name) ?? { damage: 0, hits: 0, misses: 0 };
+      if (!hasBySource) {
+        if ((ev.amount ?? 0) > 0) { cur.damage += ev.amount || 0; cur.hits += 1; }
+      }
+      if ((ev.amount ?? 0) === 0) { cur.misses += 1; }
+      per.set(name, cur);
+    }
+  }
+
+  const arr = [...per.entries()]
+    .sort((a, b) => b[1].damage - a[1].damage || b[1].hits - a[1].hits)
+    .map(([actor, agg]) => `${actor}: ${fmt1(agg.damage)} dmg, ${agg.hits} hits, ${agg.misses} misses`);
+  return arr;
+}
+
+/* Running totals for the fight in progress; playback and exports share these helpers. */
+export interface PerActor { damage: number; hits: number; misses: number }
+export interface FightAccumulator {
+  byActor: Map<string, PerActor>;
+  totals: PerActor;
+  estimated: boolean; // fight includes estimated rounds
+}
+
+export const newFightAccumulator = (): FightAccumulator =>
+  ({ byActor: new Map(), totals: { damage: 0, hits: 0, misses: 0 }, estimated: false });
+
+export const cloneFightAccumulator = (acc: FightAccumulator): FightAccumulator => ({
+  byActor: new Map([...acc.byActor].map(([k, v]) => [k, { ...v }])),
+  totals: { ...acc.totals },
+  estimated: acc.estimated,
+});
+
+export const hasFightData = (acc: FightAccumulator) =>
+  acc.byActor.size > 0 || acc.totals.damage > 0 || acc.totals.hits > 0 || acc.totals.misses > 0;
+
+/* Fight batching helpers (with per-source misses) */
+function addRoundToActors(acc: FightAccumulator, p: DamagePayload) {
+  const map = acc.byActor;
+  const hasBySource = !!(p.bySource && p.bySource.length);
+
+  if (hasBySource) {
+    for (const row of p.bySource!) {
+      const name = normalizeActor(row.actor || "");
+      const cur = map.get(name) ?? { damage: 0, hits: 0, misses: 0 };
+      cur.damage += row.totalAsSource || 0;
+      cur.hits += row.countAsSource || 0;
+      map.set(name, cur);
+    }
+  } else if (p.events && p.events.length) {
+    for (const ev of p.events) {
+      const name = normalizeActor(ev.source || "");
+      const cur = map.get(name) ?? { damage: 0, hits: 0, misses: 0 };
+      if (ev.amount > 0) { cur.damage += ev.amount || 0; cur.hits += 1; }
+      map.set(name, cur);
+    }
+  }
+
+  if (p.events && p.events.length) {
+    for (const ev of p.events) {
+      if ((ev.amount ?? 0) === 0) {
+        const name = normalizeActor(ev.source || "");
+        const cur = map.get(name) ?? { damage: 0, hits: 0, misses: 0 };
+        cur.misses += 1;
+        map.set(name, cur);
+      }
+    }
+  }
+}
+
+function addRoundToTotals(acc: FightAccumulator, p: DamagePayload) {
+  // NOTE: Totals are derived from the same basis we use per-actor to avoid mismatches.
+  const t = acc.totals;
+
+  if (p.bySource?.length) {
+    t.damage += p.bySource.reduce((s, r) => s + (r.totalAsSource || 0), 0);
+    t.hits   += p.bySource.reduce((s, r) => s + (r.countAsSource || 0), 0);
+  } else if (p.events?.length) {
+    for (const ev of p.events) {
+      if ((ev.amount ?? 0) > 0) { t.damage += ev.amount || 0; t.hits += 1; }
+    }
+  } else {
+    // Fallback to payload rollups (rare)
+    t.damage += p.totalDamage || 0;
+    t.hits   += p.hits || 0;
+  }
+
+  if (p.events?.length) {
+    t.misses += p.events.filter(e => (e.amount ?? 0) === 0).length;
+  } else if (typeof p.misses === "number") {
+    t.misses += p.misses;
+  }
+}
+
+export function addRoundToFight(acc: FightAccumulator, p: DamagePayload) {
+  addRoundToActors(acc, p);
+  addRoundToTotals(acc, p);
+  if (p.estimated) acc.estimated = true;
+}
+
+/* Summary rows, highest damage first */
+export const fightSummaryRows = (acc: FightAccumulator): [string, PerActor][] =>
+  [...acc.byActor.entries()].sort((a, b) => b[1].damage - a[1].damage);
+
+/* Plain-text fight summary, as written to the terminal */
+export function fightSummaryLines(acc: FightAccumulator, label = "— Fight summary —"): string[] {
+  const t = acc.totals;
+  const out = [`${label}${acc.estimated ? " (estimated)" : ""} totalDamage=${fmt1(t.damage)}, hits=${t.hits}, misses=${t.misses}`];
+  for (const [actor, agg] of fightSummaryRows(acc)) {
+    out.push(`  ${actor}: ${fmt1(agg.damage)} dmg, ${agg.hits} hits, ${agg.misses} misses`);
+  }
+  out.push("");
+  return out;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { analyzeEntries, checkDamagePayload, checkRawDamagePayload, newParseDiagnostics } from "./diagnostics";
+import { parseLog } from "./logParser";
+import { T0, at, dmg, entriesOf, hit, jsonl, round } from "./testLog";
+
+describe("checkDamagePayload", () => {
+  it("accepts rollups that match the events and rows", () => {
+    expect(checkDamagePayload(round(hit("Bob", "troll", 4), hit("Bob", "troll", 0)))).toEqual([]);
+  });
+
+  it("reports rollups that disagree", () => {
+    expect(checkDamagePayload({ ...round(hit("Bob", "troll", 4)), totalDamage: 6, misses: 1 })).toEqual([
+      "totalDamage 6 ≠ events 4", "misses 1 ≠ events 0",
+    ]);
+  });
+});
+
+describe("checkRawDamagePayload", () => {
+  it("reports rollups that are missing or not numbers, and lists that aren't", () => {
+    expect(checkRawDamagePayload({ ...round(hit("Bob", "troll", 4)), hits: "1", misses: undefined, bySource: {} })).toEqual([
+      'hits is not a number ("1")', "misses is not a number (missing)", "bySource is not a list",
+    ]);
+    expect(checkRawDamagePayload("x")).toEqual(["payload is not an object"]);
+  });
+
+  it("runs before parsing fills the rollups in, by line number", () => {
+    const diag = newParseDiagnostics();
+    const lines = [dmg(0, round(hit("Bob", "troll", 4))), dmg(1, { ...round(hit("Bob", "troll", 7)), misses: undefined }), { timestamp: at(2), type: "damage", payload: "x" }];
+    const entries = parseLog(jsonl(...lines), 0, diag);
+    expect(entries).toHaveLength(2);
+    expect(diag.payloadIssues).toBe(1);
+    expect(diag.payloadIssueLines[0]).toMatchObject({ line: 2, reason: "misses is not a number (missing)" });
+    expect(diag.skippedLines[0]).toMatchObject({ line: 3, reason: "damage/(none): payload is not an object" });
+  });
+});
+
+describe("analyzeEntries", () => {
+  it("finds silences and inconsistent rounds", () => {
+    const entries = entriesOf([dmg(0, round(hit("Bob", "troll", 4))), dmg(900, { ...round(hit("Bob", "troll", 4)), hits: 2 })]);
+    const d = analyzeEntries(entries);
+    expect(d.gaps).toEqual([{ ts: T0 + 900_000, seconds: 900 }]);
+    expect(d.damage).toBe(1);
+    expect(d.damageIssues[0].message).toBe("hits 2 ≠ events 1");
+  });
+});
@@ -0,0 +1,118 @@
+// src/core/diagnostics.ts
+import type { DamagePayload } from "./damage";
+import type { LogEntry } from "./logParser";
+
+export interface LineIssue {
+  line: number;   // 1-based line number in the file
+  reason: string;
+  sample: string; // the line (or its start)
+}
+
+/* What parsing one file ran into. Filled in by parseLine/finalizeEntries when passed along. */
+export interface ParseDiagnostics {
+  lines: number;                        // lines read, blank ones included
+  byType: Record<string, number>;       // every JSON line by type
+  bySubtype: Record<string, number>;    // "type/subtype"
+  skipped: Record<string, number>;      // valid JSON without a type, or rejected by its type's handler, by "type/subtype"
+  skippedLines: LineIssue[];
+  payloadIssues: number;                // kept lines whose raw payload had problems (see EntryTypeHandler.check)
+  payloadIssueLines: LineIssue[];
+  unparsable: number;
+  unparsableLines: LineIssue[];
+  badTimestamps: number;
+  badTimestampLines: LineIssue[];
+  outOfOrder: number;                   // lines older than the line before them
+  outOfOrderLines: LineIssue[];
+  duplicates: number;                   // dsl-messages dropped as exact repeats
+  lastTs: number;                       // parse cursor for the out-of-order check
+}
+
+export const MAX_SAMPLES = 50; // kept per issue kind; counts are always complete
+const SAMPLE_CHARS = 160;
+
+export const newParseDiagnostics = (): ParseDiagnostics => ({
+  lines: 0, byType: {}, bySubtype: {}, skipped: {}, skippedLines: [],
+  payloadIssues: 0, payloadIssueLines: [],
+  unparsable: 0, unparsableLines: [],
+  badTimestamps: 0, badTimestampLines: [],
+  outOfOrder: 0, outOfOrderLines: [],
+  duplicates: 0, lastTs: -Infinity,
+});
+
+export function noteLine(list: LineIssue[], line: number, reason: string, text: string) {
+  if (list.length < MAX_SAMPLES) list.push({ line, reason, sample: text.length > SAMPLE_CHARS ? text.slice(0, SAMPLE_CHARS) + "…" : text });
+}
+
+export const bump = (counts: Record<string, number>, key: string) => { counts[key] = (counts[key] ?? 0) + 1; };
+
+/* Issues found by looking at the parsed entries as a whole */
+export interface EntryIssue {
+  ts: number; // absolute ms
+  message: string;
+}
+
+export interface EntryDiagnostics {
+  gaps: { ts: number; seconds: number }[]; // silences longer than the threshold, ts = where the silence ends
+  damage: number;                          // rounds whose rollups disagree with their rows
+  damageIssues: EntryIssue[];
+}
+
+export const DEFAULT_GAP_SEC = 10 * 60;
+const MAX_ENTRY_ISSUES = 200;
+
+const close = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+/* What a damage line's payload lacks as logged, before parsing fills in the rollups. */
+export function checkRawDamagePayload(v: unknown): string[] {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return ["payload is not an object"];
+  const p = v as Record<string, unknown>;
+  const out: string[] = [];
+  for (const k of ["totalDamage", "hits", "misses"]) {
+    if (typeof p[k] !== "number" || !Number.isFinite(p[k])) out.push(`${k} is not a number (${JSON.stringify(p[k]) ?? "missing"})`);
+  }
+  for (const k of ["events", "bySource", "byTarget"]) {
+    if (p[k] !== undefined && !Array.isArray(p[k])) out.push(`${k} is not a list`);
+  }
+  return out;
+}
+
+/* Compare a damage payload's rollups with its events and bySource rows. */
+export function checkDamagePayload(p: DamagePayload): string[] {
+  const out: string[] = [];
+  if (p.events?.length) {
+    const hits = p.events.filter((e) => (e.amount ?? 0) > 0);
+    const dmg = hits.reduce((s, e) => s + e.amount, 0);
+    const misses = p.events.length - hits.length;
+    if (typeof p.totalDamage === "number" && !close(p.totalDamage, dmg)) out.push(`totalDamage ${p.totalDamage} ≠ events ${dmg}`);
+    if (typeof p.hits === "number" && p.hits !== hits.length) out.push(`hits ${p.hits} ≠ events ${hits.length}`);
+    if (typeof p.misses === "number" && p.misses !== misses) out.push(`misses ${p.misses} ≠ events ${misses}`);
+  }
+  if (p.bySource?.length) {
+    const dmg = p.bySource.reduce((s, r) => s + (r.totalAsSource || 0), 0);
+    const hits = p.bySource.reduce((s, r) => s + (r.countAsSource || 0), 0);
+    if (typeof p.totalDamage === "number" && !close(p.totalDamage, dmg)) out.push(`totalDamage ${p.totalDamage} ≠ bySource ${dmg}`);
+    if (typeof p.hits === "number" && p.hits !== hits) out.push(`hits ${p.hits} ≠ bySource ${hits}`);
+  }
+  return out;
+}
+
+/* Large gaps and inconsistent damage rounds. Estimated rounds are ours, so they're skipped. */
+export function analyzeEntries(entries: LogEntry[], gapSec = DEFAULT_GAP_SEC): EntryDiagnostics {
+  const out: EntryDiagnostics = { gaps: [], damage: 0, damageIssues: [] };
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    const ts = e.ts.getTime();
+    if (i > 0) {
+      const gap = (ts - entries[i - 1].ts.getTime()) / 1000;
+      if (gap > gapSec) out.gaps.push({ ts, seconds: gap });
+    }
+    if (e.type === "damage" && e.payload && !e.payload.estimated) {
+      const problems = checkDamagePayload(e.payload);
+      if (problems.length) {
+        out.damage++;
+        if (out.damageIssues.length < MAX_ENTRY_ISSUES) out.damageIssues.push({ ts, message: problems.join("; ") });
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,110 @@
+// src/core/entryTypes.ts
+// Everything the viewer knows about one JSONL "type": how a line becomes an entry, whether
+// two entries are duplicates, whether it is a damage round, and how it is written out.
+// Parsing, playback and every export go through this registry, so a new message type is
+// one registerEntryType call.
+import type { CharData, LogEntry } from "./logParser";
+import type { DamageActorRow, DamageEvent, DamagePayload } from "./damage";
+import { checkRawDamagePayload } from "./diagnostics";
+import type { ExportFormat } from "./exporters";
+
+/* A parsed JSONL object, before validation */
+export type RawLine = Record<string, unknown>;
+
+/* What every entry gets regardless of type (timestamp already validated) */
+export interface EntryHead {
+  ts: Date;
+  subtype?: string;
+  sources: number[];
+}
+
+export interface EntryTypeHandler {
+  type: string;
+  parse: (obj: RawLine, head: EntryHead) => LogEntry | null; // null = payload failed validation (counted as skipped)
+  check?: (obj: RawLine) => string[];                        // problems with the line as logged, reported by line number
+  dedupeKey?: (e: LogEntry) => string;                       // same key at the same timestamp → duplicate, dropped
+  damage?: (e: LogEntry) => DamagePayload | undefined;       // entries that count as damage rounds for fights
+  render?: (e: LogEntry, fmt: ExportFormat) => string[];     // playback/export lines; none = data only
+}
+
+const handlers = new Map<string, EntryTypeHandler>();
+
+/* Add or replace the handler for a type */
+export function registerEntryType(h: EntryTypeHandler) {
+  handlers.set(h.type, h);
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+/* Types nobody registered: kept with their payload and shown as one dimmed JSON line */
+export const GENERIC_ENTRY: EntryTypeHandler = {
+  type: "*",
+  parse: (obj, head) => ({ ...head, type: String(obj.type), data: "payload" in obj ? obj.payload : obj }),
+  render: (e, fmt) => {
+    const label = `[${e.type}${e.subtype ? `/${e.subtype}` : ""}]`;
+    return [fmt.message(`\x1b[90m${label}\x1b[0m ${JSON.stringify(e.data) ?? ""}`, e)];
+  },
+};
+
+export const entryHandler = (type: string): EntryTypeHandler => handlers.get(type) ?? GENERIC_ENTRY;
+
+/* Lines for one entry in a format ([] for data-only types) */
+export const renderEntry = (e: LogEntry, fmt: ExportFormat): string[] => entryHandler(e.type).render?.(e, fmt) ?? [];
+
+/* The damage round an entry carries, if its type has one */
+export const entryDamage = (e: LogEntry): DamagePayload | undefined => entryHandler(e.type).damage?.(e);
+
+registerEntryType({
+  type: "dsl-message",
+  parse: (obj, head) => {
+    const m = obj.payload ?? "";
+    return typeof m === "string" ? { ...head, type: "dsl-message", message: m } : null;
+  },
+  dedupeKey: (e) => `${e.ts.toISOString()}|${e.type}|${e.message}`,
+  render: (e, fmt) => [fmt.message(e.message ?? "", e)],
+});
+
+const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+const listOf = <T>(v: unknown) => (Array.isArray(v) ? (v.filter(isObject) as unknown as T[]) : undefined);
+
+/* A damage round as far as it can be used: lists that aren't arrays are dropped and missing
+   rollups are derived from bySource/events (misses default to 0). Null when the payload
+   has neither rollups nor lists to go on. */
+function damagePayloadOf(v: unknown): DamagePayload | null {
+  if (!isObject(v)) return null;
+  const events = listOf<DamageEvent>(v.events);
+  const bySource = listOf<DamageActorRow>(v.bySource);
+  const byTarget = listOf<DamageActorRow>(v.byTarget);
+  const totalDamage = num(v.totalDamage), hits = num(v.hits), misses = num(v.misses);
+  if (totalDamage === undefined && hits === undefined && misses === undefined && !events && !bySource) return null;
+  const landed = events?.filter((e) => (num(e.amount) ?? 0) > 0);
+  return {
+    ...v,
+    totalDamage: totalDamage
+      ?? (bySource?.length ? bySource.reduce((s, r) => s + (num(r.totalAsSource) ?? 0), 0) : landed?.reduce((s, e) => s + e.amount, 0) ?? 0),
+    hits: hits ?? (bySource?.length ? bySource.reduce((s, r) => s + (num(r.countAsSource) ?? 0), 0) : landed?.length ?? 0),
+    misses: misses ?? (events && landed ? events.length - landed.length : 0),
+    events, bySource, byTarget,
+  };
+}
+
+// Damage rounds are kept (never deduped, rollups filled in when missing), so nothing is dropped by accident
+registerEntryType({
+  type: "damage",
+  parse: (obj, head) => {
+    const payload = damagePayloadOf(obj.payload);
+    return payload ? { ...head, type: "damage", payload } : null;
+  },
+  check: (obj) => checkRawDamagePayload(obj.payload),
+  damage: (e) => e.payload,
+  render: (e, fmt) => (e.payload ? fmt.round(e.payload, e) : []),
+});
+
+// GMCP is state, not text: char_data feeds vitals, segmentation and progress; other subtypes are kept as data
+registerEntryType({
+  type: "gmcp",
+  parse: (obj, head) => {
+    if (head.subtype !== "char_data") return { ...head, type: "gmcp", data: obj.payload };
+    return isObject(obj.payload) ? { ...head, type: "gmcp", charData: obj.payload as unknown as CharData } : null;
+  },
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { HTML, PLAIN_TEXT, renderExport } from "./exporters";
+import { lowerBound, upperBound } from "./logParser";
+import { segmentFights } from "./segmentation";
+import { T0, dmg, entriesOf, hit, msg, round } from "./testLog";
+
+const summaries = (text: string) => text.split("\n").filter((l) => l.includes("summary"));
+
+// two fights (5 minute default gap), a message between them
+const entries = entriesOf([
+  msg(0, "\x1b[31mA troll attacks!\x1b[0m"),
+  dmg(1, round(hit("Bob", "troll", 7), hit("Ann", "troll", 3))),
+  dmg(2, round(hit("Bob", "troll", 0))),
+  msg(3, "The troll is DEAD!!"),
+  dmg(400, round(hit("Bob", "orc", 4))),
+]);
+
+describe("renderExport", () => {
+  it("writes messages, rounds and a summary per fight", () => {
+    const text = renderExport(entries, PLAIN_TEXT);
+    expect(text).toContain("A troll attacks!");
+    expect(text).not.toContain("\x1b[");
+    expect(text).toContain("⮞ Damage Round: total=10, hits=2, misses=0");
+    expect(summaries(text)).toEqual([
+      "— Fight summary — totalDamage=10, hits=2, misses=1",
+      "— Fight summary — totalDamage=4, hits=1, misses=0",
+    ]);
+    // the first fight is summed up once it is over, before the second one starts
+    expect(text.indexOf("totalDamage=10")).toBeLessThan(text.indexOf("total=4"));
+  });
+
+  it("adds a range summary when a range holds several fights", () => {
+    const text = renderExport(entries, PLAIN_TEXT, { rangeLabel: "00:00:00–00:07:00" });
+    expect(summaries(text).pop()).toBe("— 00:00:00–00:07:00 summary (2 fights) — totalDamage=14, hits=3, misses=1");
+  });
+
+  it("counts only the rounds inside a range, with fights of the whole log", () => {
+    const times = Float64Array.from(entries, (e) => e.ts.getTime());
+    const part = entries.slice(lowerBound(times, T0 + 2000), upperBound(times, T0 + 500_000));
+    const text = renderExport(part, PLAIN_TEXT, { fights: segmentFights(entries), rangeLabel: "r" });
+    expect(summaries(text)).toEqual([
+      "— Fight summary — totalDamage=0, hits=0, misses=1",
+      "— Fight summary — totalDamage=4, hits=1, misses=0",
+      "— r summary (2 fights) — totalDamage=4, hits=1, misses=1",
+    ]);
+  });
+
+  it("leaves out the range summary for a single fight", () => {
+    const text = renderExport(entries.slice(0, 3), PLAIN_TEXT, { rangeLabel: "r" });
+    expect(summaries(text)).toHaveLength(1);
+  });
+
+  it("builds a standalone HTML document with an escaped title", () => {
+    const html = renderExport(entries, HTML, { title: "<Bob>" });
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<title>&lt;Bob&gt;</title>");
+    expect(html).toContain('<div class="round">');
+    expect(html).toContain('<div class="fight">');
+  });
+});
@@ -0,0 +1,211 @@
+// src/core/exporters.ts
+import Convert from "ansi-to-html";
+import { colorHex, effectiveFg, nearestColor, sgrSegments, stripAnsi, type SgrState } from "./ansi";
+import {
+  addRoundToFight, buildRoundPerSourceLines, fightSummaryLines, hasFightData, newFightAccumulator,
+  type DamagePayload, type FightAccumulator,
+} from "./damage";
+import type { ActorResolver } from "./actors";
+import { ansiToBBCode, type BBCodeConfig } from "./bbcode";
+import type { LogEntry } from "./logParser";
+import type { Redactor } from "./redaction";
+import { fightIndexAt, segmentFights, type Fight } from "./segmentation";
+import { entryDamage, renderEntry } from "./entryTypes";
+
+/* One export target. Every hook returns output lines; `document` joins them into the final text.
+   Entry types build their lines from `message`/`round` (see entryTypes.ts) and may branch on `id`. */
+export interface ExportFormat {
+  id: string;
+  message: (ansi: string, e: LogEntry) => string;
+  round: (p: DamagePayload, e: LogEntry) => string[];
+  fightSummary: (acc: FightAccumulator, label?: string) => string[];
+  document: (body: string[], title: string) => string;
+}
+
+export interface ExportOptions {
+  title?: string;
+  rangeLabel?: string; // set when exporting part of the log; adds a summary over the whole range
+  fights?: Fight[];    // segmentation of the whole log; defaults to the gap rule over `entries`
+  actors?: ActorResolver; // alias/pet/party mapping applied to every round
+  redact?: Redactor | null; // pseudonyms, rules and dropped tells, applied last
+}
+
+const est = (p: DamagePayload) => (p.estimated ? " (estimated)" : "");
+export const roundHeader = (p: DamagePayload) =>
+  `Damage Round${est(p)}: total=${p.totalDamage}, hits=${p.hits}, misses=${p.misses}`;
+
+/* Walk entries the way playback does: rounds inline, and a fight summary once its
+   fight is over (past its flushAt, or the next fight's first round) or at the end.
+   Summaries only count the rounds passed in, so a range export gets totals for that
+   range alone. */
+export function renderExport(entries: LogEntry[], fmt: ExportFormat, opts: ExportOptions = {}): string {
+  const fightList = opts.fights ?? segmentFights(entries);
+  const redact = opts.redact ?? null;
+  const actors = redact ? redact.actors(opts.actors) : opts.actors;
+  const body: string[] = [];
+  const range = newFightAccumulator();
+  let acc = newFightAccumulator();
+  let cur: number | null = null; // fight being accumulated
+  let fights = 0;
+  const flush = () => {
+    if (hasFightData(acc)) { body.push(...fmt.fightSummary(acc)); fights++; }
+    acc = newFightAccumulator();
+    cur = null;
+  };
+
+  for (const src of entries) {
+    const e = redact ? redact.entry(src) : src;
+    if (!e) continue;
+    const ts = e.ts.getTime();
+    if (cur !== null && ts > (fightList[cur]?.flushAt ?? Infinity)) flush();
+    const round = entryDamage(e);
+    if (!round) {
+      body.push(...renderEntry(e, fmt));
+      continue;
+    }
+    const k = fightIndexAt(fightList, ts);
+    if (cur !== null && k !== cur) flush();
+    const p = actors ? actors.payload(round) : round;
+    body.push(...renderEntry(p === round ? e : { ...e, payload: p }, fmt));
+    addRoundToFight(acc, p);
+    addRoundToFight(range, p);
+    cur = k;
+  }
+  flush();
+  // With a single fight in range its summary already is the range total
+  if (opts.rangeLabel && fights > 1) body.push(...fmt.fightSummary(range, `— ${opts.rangeLabel} summary (${fights} fights) —`));
+  return fmt.document(body, opts.title ?? "DSL log");
+}
+
+/* Plain text (round headers + per-round per-source lines) */
+export const PLAIN_TEXT: ExportFormat = {
+  id: "plain",
+  message: (m) => stripAnsi(m) || " ",
+  round: (p) => {
+    const lines = buildRoundPerSourceLines(p);
+    return [`⮞ ${roundHeader(p)}`, ...(lines.length ? ["By source:", ...lines.map((l) => `  ${l}`)] : []), "", ""];
+  },
+  fightSummary: fightSummaryLines,
+  document: (body) => body.join("\n"),
+};
+
+/* Forum BBCode in the configured dialect and palette */
+export const bbcodeFormat = (cfg: BBCodeConfig): ExportFormat => ({
+  id: "bbcode",
+  message: (m) => ansiToBBCode(m, cfg),
+  round: (p) => {
+    const lines = buildRoundPerSourceLines(p);
+    return [
+      `[B]Damage Round${est(p)}:[/B] total=${p.totalDamage}, hits=${p.hits}, misses=${p.misses}`,
+      ...(lines.length ? ["[B]By source:[/B]", ...lines.map((l) => `  ${l}`)] : []),
+      "", "",
+    ];
+  },
+  fightSummary: (acc, label) => {
+    const [head, ...rows] = fightSummaryLines(acc, label);
+    return [`[B]${head}[/B]`, ...rows];
+  },
+  document: (body) => body.join("\n"),
+});
+
+/* Standalone HTML */
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Re-emit each run's state explicitly (bold-on-basic as the bright color), one sequence per
+// attribute since ansi-to-html reads "38;5;n" inside a longer list as separate codes
+function normalizeSgr(line: string): string {
+  return sgrSegments(line).map(({ text, st }) => {
+    const fg = effectiveFg(st);
+    const codes = ["0"];
+    if (st.bold) codes.push("1");
+    if (st.underline) codes.push("4");
+    if (fg !== null) codes.push(typeof fg === "number" ? `38;5;${fg}` : `38;2;${rgbCodes(fg)}`);
+    if (st.bg !== null) codes.push(typeof st.bg === "number" ? `48;5;${st.bg}` : `48;2;${rgbCodes(st.bg)}`);
+    return codes.map((c) => `\x1b[${c}m`).join("") + text;
+  }).join("") + "\x1b[0m";
+}
+const rgbCodes = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)).join(";");
+
+const HTML_CSS = `
+body { margin: 0; padding: 16px; background: #000; color: #ccc; font: 13px/1.35 Menlo, Consolas, monospace; }
+.l { white-space: pre-wrap; min-height: 1.35em; }
+.round, .fight { margin: 6px 0 10px; padding: 6px 10px; border-left: 3px solid #d80; background: #1a1a1a; white-space: pre-wrap; }
+.round.est, .fight.est { border-left-style: dashed; }
+.fight { border-left-color: #646cff; background: #1c1d2e; }
+.h { font-weight: bold; color: #fff; }
+.src { color: #aaa; padding-left: 1em; }
+`.trim();
+
+const htmlConvert = new Convert({ fg: "#ccc", bg: "#000", escapeXML: true });
+
+/* One ANSI line → escaped HTML with inline colors */
+export const ansiLineToHtml = (m: string) => (m ? htmlConvert.toHtml(normalizeSgr(m)) : "");
+
+export const HTML: ExportFormat = {
+  id: "html",
+  message: (m) => `<div class="l">${ansiLineToHtml(m)}</div>`,
+  round: (p) => [
+    `<div class="round${p.estimated ? " est" : ""}"><div class="h">⮞ ${escapeHtml(roundHeader(p))}</div>`,
+    ...buildRoundPerSourceLines(p).map((l) => `<div class="src">${escapeHtml(l)}</div>`),
+    "</div>",
+  ],
+  fightSummary: (acc, label) => {
+    const [head, ...rows] = fightSummaryLines(acc, label).filter((l) => l !== "");
+    return [
+      `<div class="fight${acc.estimated ? " est" : ""}"><div class="h">${escapeHtml(head)}</div>`,
+      ...rows.map((l) => `<div class="src">${escapeHtml(l.trim())}</div>`),
+      "</div>",
+    ];
+  },
+  document: (body, title) => [
+    "<!DOCTYPE html>",
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${HTML_CSS}</style></head>`,
+    "<body>",
+    ...body,
+    "</body></html>",
+  ].join("\n"),
+};
+
+/* Discord ```ansi blocks: only 30–37 foreground, bold and underline render, so everything
+   else is mapped to the nearest of those and backgrounds are dropped. */
+const DISCORD_FG = ["#4f545c", "#dc322f", "#859900", "#b58900", "#268bd2", "#d33682", "#2aa198", "#ffffff"];
+
+function discordSgr(st: SgrState): string {
+  const codes = ["0"];
+  let bold = st.bold;
+  let fg: number | null = null;
+  if (typeof st.fg === "number" && st.fg < 16) {
+    fg = st.fg % 8;
+    if (st.fg >= 8) bold = true;
+  } else if (st.fg !== null) {
+    fg = nearestColor(colorHex(st.fg), DISCORD_FG);
+  }
+  if (bold) codes.push("1");
+  if (st.underline) codes.push("4");
+  if (fg !== null) codes.push(String(30 + fg));
+  return `\x1b[${codes.join(";")}m`;
+}
+
+// A literal ``` in the log would close the code block early
+const defuseFence = (s: string) => s.replace(/```/g, "`\u200b``");
+
+export function toDiscordAnsi(line: string): string {
+  const segs = sgrSegments(line);
+  if (!segs.some((s) => s.st.fg !== null || s.st.bold || s.st.underline)) return defuseFence(stripAnsi(line));
+  return segs.map(({ text, st }) => discordSgr(st) + defuseFence(text)).join("") + "\x1b[0m";
+}
+
+export const DISCORD: ExportFormat = {
+  id: "discord",
+  message: toDiscordAnsi,
+  round: (p) => {
+    const lines = buildRoundPerSourceLines(p);
+    return [`\x1b[1;33m⮞ ${roundHeader(p)}\x1b[0m`, ...lines.map((l) => `  ${defuseFence(l)}`), ""];
+  },
+  fightSummary: (acc, label) => {
+    const [head, ...rows] = fightSummaryLines(acc, label);
+    return [`\x1b[1;36m${head}\x1b[0m`, ...rows];
+  },
+  document: (body) => "```ansi\n" + body.join("\n") + "\n```",
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { actorResolver } from "./actors";
+import { computeFightStats } from "./fightStats";
+import { segmentFights } from "./segmentation";
+import { dmg, entriesOf, hit, round } from "./testLog";
+
+const fight = segmentFights(entriesOf([
+  dmg(0, round(hit("Bob", "troll", 6, "slash"), hit("Ann", "troll", 2, "pierce"))),
+  dmg(4, round(hit("Bob", "troll", 0, "slash"), hit("troll", "Bob", 5, "claw"))),
+]))[0];
+
+describe("computeFightStats", () => {
+  const s = computeFightStats(fight);
+
+  it("totals the fight", () => {
+    expect(s).toMatchObject({ durationSec: 4, totalDamage: 13, hits: 3, misses: 1, estimated: false });
+    expect(s.perRound.map((r) => r.damage)).toEqual([8, 5]);
+  });
+
+  it("ranks actors by damage dealt with DPS over the fight", () => {
+    expect(s.actors.map((a) => a.actor)).toEqual(["Bob", "troll", "Ann"]);
+    expect(s.actors[0]).toMatchObject({ dealt: 6, hits: 1, misses: 1, taken: 5, hitsTaken: 1, dps: 1.5 });
+    expect(s.actors[1]).toMatchObject({ dealt: 5, taken: 8 });
+  });
+
+  it("breaks damage down by verb", () => {
+    expect(s.byVerb.map((v) => [v.verb, v.damage, v.hits, v.misses])).toEqual([
+      ["slash", 6, 1, 1], ["claw", 5, 1, 0], ["pierce", 2, 1, 0],
+    ]);
+  });
+
+  it("uses bySource rows when the round has them", () => {
+    const f = segmentFights(entriesOf([dmg(0, {
+      totalDamage: 9, hits: 2, misses: 0,
+      bySource: [{ actor: "[ Grp ] Bob", totalAsSource: 9, totalAsTarget: 0, countAsSource: 2, countAsTarget: 0 }],
+    })]))[0];
+    expect(computeFightStats(f).actors[0]).toMatchObject({ actor: "Bob", dealt: 9, hits: 2 });
+  });
+
+  it("falls back to the rollups for rounds without rows or events", () => {
+    const f = segmentFights(entriesOf([dmg(0, { totalDamage: 7, hits: 1, misses: 2 })]))[0];
+    expect(computeFightStats(f)).toMatchObject({ totalDamage: 7, hits: 1, misses: 2 });
+  });
+
+    it("applies the actor mapping", () => {
+    const resolver = actorResolver({ rules: [{ name: "Ann", alias: "Bob" }], partyOnly: false });
+    const mapped = computeFightStats(fight, resolver);
+    expect(mapped.actors.find((a) => a.actor === "Bob")).toMatchObject({ dealt: 8, hits: 2 });
+    expect(mapped.actors.some((a) => a.actor === "Ann")).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+// src/core/fightStats.ts
+import { normalizeActor, type DamagePayload } from "./damage";
+import type { Fight } from "./segmentation";
+import type { ActorResolver } from "./actors";
+
+export interface ActorStats {
+  actor: string;
+  dealt: number;
+  hits: number;
+  misses: number;
+  taken: number;
+  hitsTaken: number;
+  dps: number;
+}
+
+export interface VerbStats {
+  verb: string;
+  damage: number;
+  hits: number;
+  misses: number;
+}
+
+export interface FightStats {
+  start: number;       // absolute ms
+  end: number;         // absolute ms
+  durationSec: number;
+  totalDamage: number;
+  hits: number;
+  misses: number;
+  actors: ActorStats[];         // sorted by damage dealt
+  perRound: { ts: number; damage: number }[];
+  byVerb: VerbStats[];          // sorted by damage
+  estimated: boolean;           // any round derived from message text
+}
+
+const blankActor = (actor: string): ActorStats => ({ actor, dealt: 0, hits: 0, misses: 0, taken: 0, hitsTaken: 0, dps: 0 });
+
+/* Damage and hits a round contributes, on the same basis as the playback fight summary:
+   bySource rows when present, else hit events, else the payload rollup. */
+function roundDamage(p: DamagePayload): number {
+  if (p.bySource?.length) return p.bySource.reduce((s, r) => s + (r.totalAsSource || 0), 0);
+  if (p.events?.length) return p.events.reduce((s, e) => s + ((e.amount ?? 0) > 0 ? e.amount : 0), 0);
+  return p.totalDamage || 0;
+}
+
+function roundHits(p: DamagePayload): number {
+  if (p.bySource?.length) return p.bySource.reduce((s, r) => s + (r.countAsSource || 0), 0);
+  if (p.events?.length) return p.events.filter((e) => (e.amount ?? 0) > 0).length;
+  return p.hits || 0;
+}
+
+function addRound(p: DamagePayload, actors: Map<string, ActorStats>, verbs: Map<string, VerbStats>) {
+  const get = (name: string) => {
+    const key = normalizeActor(name || "");
+    let a = actors.get(key);
+    if (!a) { a = blankActor(key); actors.set(key, a); }
+    return a;
+  };
+
+  // dealt
+  if (p.bySource?.length) {
+    for (const row of p.bySource) {
+      const a = get(row.actor);
+      a.dealt += row.totalAsSource || 0;
+      a.hits += row.countAsSource || 0;
+    }
+  } else if (p.events?.length) {
+    for (const ev of p.events) {
+      if ((ev.amount ?? 0) > 0) { const a = get(ev.source); a.dealt += ev.amount; a.hits += 1; }
+    }
+  }
+
+  // taken
+  if (p.byTarget?.length) {
+    for (const row of p.byTarget) {
+      const a = get(row.actor);
+      a.taken += row.totalAsTarget || 0;
+      a.hitsTaken += row.countAsTarget || 0;
+    }
+  } else if (p.events?.length) {
+    for (const ev of p.events) {
+      if ((ev.amount ?? 0) > 0) { const a = get(ev.target); a.taken += ev.amount; a.hitsTaken += 1; }
+    }
+  }
+
+  // misses + verbs (events only)
+  for (const ev of p.events ?? []) {
+    const amount = ev.amount ?? 0;
+    if (amount === 0) get(ev.source).misses += 1;
+    const verb = ev.verbKey || "(unknown)";
+    const v = verbs.get(verb) ?? { verb, damage: 0, hits: 0, misses: 0 };
+    if (amount > 0) { v.damage += amount; v.hits += 1; } else { v.misses += 1; }
+    verbs.set(verb, v);
+  }
+}
+
+export function computeFightStats(fight: Fight, resolver?: ActorResolver): FightStats {
+  const actors = new Map<string, ActorStats>();
+  const verbs = new Map<string, VerbStats>();
+  const perRound: { ts: number; damage: number }[] = [];
+  let hits = 0;
+  let misses = 0;
+
+  for (const r of fight.rounds) {
+    const p = resolver ? resolver.payload(r.payload) : r.payload;
+    addRound(p, actors, verbs);
+    perRound.push({ ts: r.ts, damage: roundDamage(p) });
+    hits += roundHits(p);
+    misses += p.events?.length
+      ? p.events.filter((e) => (e.amount ?? 0) === 0).length
+      : p.misses || 0;
+  }
+
+  // A single-round fight still gets a sane DPS
+  const durationSec = (fight.end - fight.start) / 1000;
+  const dpsBase = Math.max(durationSec, 1);
+  const list = [...actors.values()];
+  for (const a of list) a.dps = a.dealt / dpsBase;
+  list.sort((a, b) => b.dealt - a.dealt || b.taken - a.taken);
+
+  return {
+    start: fight.start,
+    end: fight.end,
+    durationSec,
+    totalDamage: perRound.reduce((s, r) => s + r.damage, 0),
+    hits,
+    misses,
+    actors: list,
+    perRound,
+    byVerb: [...verbs.values()].sort((a, b) => b.damage - a.damage || b.hits - a.hits),
+    estimated: fight.rounds.some((r) => r.payload.estimated),
+  };
+}
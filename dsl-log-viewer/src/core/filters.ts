@@ -0,0 +1,64 @@
+// src/core/filters.ts
+import { stripAnsi } from "./ansi";
+
+export type FilterMode = "include" | "exclude";
+export type FilterKind = "type" | "subtype" | "channel" | "regex";
+
+export interface FilterRule {
+  id: number;
+  enabled: boolean;
+  mode: FilterMode;
+  kind: FilterKind;
+  value: string;
+}
+
+/* The fields a rule can look at; LogEntry satisfies this structurally. */
+export interface Filterable {
+  type: string;
+  subtype?: string;
+  message?: string;
+}
+
+export type EntryPredicate = (e: Filterable) => boolean;
+
+/* Compile one rule into a matcher, or null when it can't match anything (empty value, bad regex). */
+function compileRule(r: FilterRule): EntryPredicate | null {
+  const v = r.value.trim();
+  if (!v) return null;
+  switch (r.kind) {
+    case "type":
+      return (e) => e.type === v;
+    case "subtype":
+      return (e) => (e.subtype ?? "") === v;
+    case "channel": {
+      // Leading tag such as "[ IMPLEMENTOR ]" or "[Clan]" — compared without ANSI, case-insensitive
+      const want = v.toLowerCase();
+      return (e) => e.message !== undefined && stripAnsi(e.message).trimStart().toLowerCase().startsWith(want);
+    }
+    case "regex": {
+      let re: RegExp;
+      try { re = new RegExp(v, "i"); } catch { return null; }
+      return (e) => e.message !== undefined && re.test(stripAnsi(e.message));
+    }
+  }
+}
+
+/* Entry passes when it matches at least one include rule (if any exist) and no exclude rule.
+   Returns null when no rule is active, so callers can skip filtering entirely. */
+export function compileFilter(rules: FilterRule[]): EntryPredicate | null {
+  const inc: EntryPredicate[] = [];
+  const exc: EntryPredicate[] = [];
+  for (const r of rules) {
+    if (!r.enabled) continue;
+    const m = compileRule(r);
+    if (m) (r.mode === "include" ? inc : exc).push(m);
+  }
+  if (!inc.length && !exc.length) return null;
+  return (e) => (!inc.length || inc.some((m) => m(e))) && !exc.some((m) => m(e));
+}
+
+/* Validation message for a rule's value, shown next to it in the editor. */
+export function ruleError(r: FilterRule): string | null {
+  if (r.kind !== "regex" || !r.value.trim()) return null;
+  try { new RegExp(r.value.trim(), "i"); return null; } catch (err) { return (err as Error).message; }
+}
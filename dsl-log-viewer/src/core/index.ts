@@ -0,0 +1,20 @@
+// src/core/index.ts
+// Framework-free log handling: parsing, fight segmentation, stats and exports.
+// The viewer and the CLI both build on this; nothing here touches React or the DOM.
+export * from "./actors";
+export * from "./ansi";
+export * from "./bbcode";
+export * from "./combatParser";
+export * from "./contentHash";
+export * from "./damage";
+export * from "./diagnostics";
+export * from "./entryTypes";
+export * from "./exporters";
+export * from "./fightStats";
+export * from "./filters";
+export * from "./logParser";
+export * from "./logSummary";
+export * from "./progress";
+export * from "./redaction";
+export * from "./segmentation";
+export * from "./session";
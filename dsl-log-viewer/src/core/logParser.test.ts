@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { newParseDiagnostics } from "./diagnostics";
+import { appendEntries, finalizeEntries, lowerBound, parseLine, upperBound } from "./logParser";
+import { at, dmg, hit, msg, round } from "./testLog";
+
+const line = (o: object) => JSON.stringify(o);
+
+describe("parseLine", () => {
+  it("parses a dsl-message", () => {
+    const e = parseLine(line(msg(1, "Hello")), 2);
+    expect(e).toMatchObject({ type: "dsl-message", message: "Hello", sources: [2] });
+    expect(e?.ts.toISOString()).toBe(at(1));
+  });
+
+  it("keeps damage payloads and gmcp char_data", () => {
+    expect(parseLine(line(dmg(0, round(hit("Bob", "orc", 5)))))?.payload?.totalDamage).toBe(5);
+    const g = parseLine(line({ timestamp: at(0), type: "gmcp", subtype: "char_data", payload: { hp: 10 } }));
+    expect(g?.charData?.hp).toBe(10);
+  });
+
+  it("keeps unregistered types as data", () => {
+    expect(parseLine(line({ timestamp: at(0), type: "chat", payload: { who: "Bob" } }))).toMatchObject({ type: "chat", data: { who: "Bob" } });
+  });
+
+  it("counts what it can't use", () => {
+    const diag = newParseDiagnostics();
+    expect(parseLine("{not json", 0, diag)).toBeNull();
+    expect(parseLine(line({ timestamp: "soon", type: "dsl-message", payload: "x" }), 0, diag)).toBeNull();
+    expect(parseLine(line({ timestamp: at(0), payload: "x" }), 0, diag)).toBeNull();
+    expect(parseLine(line({ timestamp: at(0), type: "damage", payload: "x" }), 0, diag)).toBeNull();
+    expect(parseLine("", 0, diag)).toBeNull();
+    expect(diag).toMatchObject({ lines: 5, unparsable: 1, badTimestamps: 1 });
+    expect(diag.skipped["(none)/(none)"]).toBe(1);
+    expect(diag.skipped["damage/(none)"]).toBe(1);
+    expect(diag.skippedLines.map((l) => [l.line, l.reason])).toEqual([[3, "no type"], [4, "damage/(none): payload is not an object"]]);
+  });
+
+  it("fills in missing damage rollups from the events and rows", () => {
+    const r = round(hit("Bob", "troll", 7), hit("Bob", "troll", 0));
+    const noMisses = parseLine(line(dmg(0, { ...r, misses: undefined })))?.payload;
+    expect(noMisses).toMatchObject({ totalDamage: 7, hits: 1, misses: 1 });
+    const rows = parseLine(line(dmg(0, {
+      hits: "1", bySource: [{ actor: "Bob", totalAsSource: 7, totalAsTarget: 0, countAsSource: 1, countAsTarget: 0 }],
+    })))?.payload;
+    expect(rows).toMatchObject({ totalDamage: 7, hits: 1, misses: 0 });
+    expect(parseLine(line(dmg(0, { totalDamage: 5 })))?.payload).toMatchObject({ totalDamage: 5, hits: 0, misses: 0 });
+  });
+
+  it("drops malformed lists but keeps the round", () => {
+    const p = parseLine(line(dmg(0, { totalDamage: 5, hits: 1, misses: 0, events: {}, bySource: "Bob", byTarget: null })))?.payload;
+    expect(p).toMatchObject({ totalDamage: 5, hits: 1, misses: 0 });
+    expect([p?.events, p?.bySource, p?.byTarget]).toEqual([undefined, undefined, undefined]);
+  });
+
+  it("skips damage rounds with nothing to go on", () => {
+    const diag = newParseDiagnostics();
+    expect(parseLine(line(dmg(0, { hits: "1", events: "x" })), 0, diag)).toBeNull();
+    expect(diag.skippedLines).toHaveLength(1);
+  });
+});
+
+describe("finalizeEntries", () => {
+  const parse = (...os: object[]) => os.map((o) => parseLine(line(o))!);
+
+  it("sorts by time and drops repeated messages at the same timestamp", () => {
+    const diag = newParseDiagnostics();
+    const out = finalizeEntries(parse(msg(2, "b"), msg(1, "a"), msg(2, "b"), msg(3, "b")), diag);
+    expect(out.map((e) => e.message)).toEqual(["a", "b", "b"]);
+    expect(diag.duplicates).toBe(1);
+  });
+
+  it("never drops damage rounds", () => {
+    const r = round(hit("Bob", "orc", 5));
+    expect(finalizeEntries(parse(dmg(1, r), dmg(1, r)))).toHaveLength(2);
+  });
+});
+
+describe("appendEntries", () => {
+  const parse = (...os: object[]) => finalizeEntries(os.map((o) => parseLine(line(o))!));
+
+  it("appends in-order batches, deduping against the tail", () => {
+    const base = parse(msg(1, "a"), msg(2, "b"));
+    const out = appendEntries(base, parse(msg(2, "b"), msg(3, "c")));
+    expect(out.map((e) => e.message)).toEqual(["a", "b", "c"]);
+    expect(out[1]).toBe(base[1]);
+  });
+
+  it("re-sorts when a batch reaches back in time", () => {
+    const out = appendEntries(parse(msg(1, "a"), msg(3, "c")), parse(msg(2, "b"), msg(1, "a")));
+    expect(out.map((e) => e.message)).toEqual(["a", "b", "c"]);
+  });
+
+  it("returns the same list for an empty batch", () => {
+    const base = parse(msg(1, "a"));
+    expect(appendEntries(base, [])).toBe(base);
+  });
+});
+
+describe("bounds", () => {
+  const times = Float64Array.from([1, 2, 2, 3]);
+  it("finds the first index at/after and strictly after a time", () => {
+    expect(lowerBound(times, 2)).toBe(1);
+    expect(upperBound(times, 2)).toBe(3);
+    expect(upperBound(times, 9)).toBe(4);
+  });
+});
@@ -0,0 +1,163 @@
+// src/core/logParser.ts
+import type { DamagePayload } from "./damage";
+import { bump, noteLine, type ParseDiagnostics } from "./diagnostics";
+import { entryHandler } from "./entryTypes";
+
+/* GMCP char_data payload (see README) */
+export interface CharData {
+  hp: number; max_hp: number;
+  mana: number; max_mana: number;
+  move: number; max_move: number;
+  gold: number; silver: number;
+  wimpy: number;
+  str: number; max_str: number;
+  int: number; max_int: number;
+  wis: number; max_wis: number;
+  dex: number; max_dex: number;
+  con: number; max_con: number;
+  stance: string;
+  language: string;
+  tnl: number;
+  carry_weight: number;
+  can_carry_weight: number;
+  is_afk: boolean;
+  is_quiet: boolean;
+  is_flying: boolean;
+  is_riding: boolean;
+  is_fighting: boolean;
+}
+
+// The built-in types; anything else comes through the entry-type registry (see entryTypes.ts)
+export type EntryType = "dsl-message" | "damage" | "gmcp" | (string & {});
+
+export interface LogEntry {
+  ts: Date;
+  type: EntryType;
+  subtype?: string;
+  message?: string;
+  payload?: DamagePayload;
+  charData?: CharData; // gmcp char_data only
+  data?: unknown;      // payload of types without a field of their own (other GMCP, unregistered types)
+  sources?: number[];  // indexes of the loaded files this entry came from
+}
+
+/* One JSONL line → entry (through the handler registered for its type), or null.
+   With `diag`, every line must be passed in file order (blank ones too) so line numbers hold. */
+export function parseLine(line: string, source = 0, diag?: ParseDiagnostics): LogEntry | null {
+  const lineNo = diag ? ++diag.lines : 0;
+  if (!line.trim()) return null;
+  let obj: any;
+  try { obj = JSON.parse(line); } catch (err) {
+    if (diag) { diag.unparsable++; noteLine(diag.unparsableLines, lineNo, (err as Error).message, line); }
+    return null;
+  }
+  if (!obj || typeof obj !== "object") {
+    if (diag) { diag.unparsable++; noteLine(diag.unparsableLines, lineNo, "not a JSON object", line); }
+    return null;
+  }
+
+  const subtype = typeof obj.subtype === "string" ? obj.subtype : undefined;
+  const kind = `${obj.type ?? "(none)"}/${subtype ?? "(none)"}`;
+  if (diag) { bump(diag.byType, String(obj.type ?? "(none)")); bump(diag.bySubtype, kind); }
+
+  // Invalid Date would sort unpredictably and poison every time calculation
+  const ts = new Date(obj.timestamp);
+  if (isNaN(ts.getTime())) {
+    if (diag) { diag.badTimestamps++; noteLine(diag.badTimestampLines, lineNo, `timestamp ${JSON.stringify(obj.timestamp)}`, line); }
+    return null;
+  }
+  if (diag) {
+    if (ts.getTime() < diag.lastTs) {
+      diag.outOfOrder++;
+      noteLine(diag.outOfOrderLines, lineNo, `${((diag.lastTs - ts.getTime()) / 1000).toFixed(3)}s before the previous line`, line);
+    }
+    diag.lastTs = Math.max(diag.lastTs, ts.getTime());
+  }
+
+  const handler = typeof obj.type === "string" ? entryHandler(obj.type) : null;
+  const entry = handler ? handler.parse(obj, { ts, subtype, sources: [source] }) : null;
+  if (diag) {
+    // checked on the raw line: parse may have filled in what was missing
+    const problems = handler?.check?.(obj) ?? [];
+    if (!entry) {
+      bump(diag.skipped, kind);
+      noteLine(diag.skippedLines, lineNo, handler ? `${kind}: ${problems.join("; ") || "unusable payload"}` : "no type", line);
+    } else if (problems.length) {
+      diag.payloadIssues++;
+      noteLine(diag.payloadIssueLines, lineNo, problems.join("; "), line);
+    }
+  }
+  return entry;
+}
+
+const dedupeKey = (e: LogEntry) => entryHandler(e.type).dedupeKey?.(e);
+
+/* Sort by time, then dedupe the types that define a dedupe key (dsl-message). */
+export function finalizeEntries(raw: LogEntry[], diag?: ParseDiagnostics): LogEntry[] {
+  raw.sort((a, b) => a.ts.getTime() - b.ts.getTime());
+
+  const seen = new Set<string>();
+  const out: LogEntry[] = [];
+  for (const e of raw) {
+    const key = dedupeKey(e);
+    if (key !== undefined) {
+      if (seen.has(key)) { if (diag) diag.duplicates++; continue; }
+      seen.add(key);
+    }
+    out.push(e);
+  }
+  return out;
+}
+
+/* Parse a whole JSONL text in one go (small inputs; big files go through the worker) */
+export function parseLog(text: string, source = 0, diag?: ParseDiagnostics): LogEntry[] {
+  const raw: LogEntry[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const e = parseLine(line, source, diag);
+    if (e) raw.push(e);
+  }
+  return finalizeEntries(raw, diag);
+}
+
+/* Index of the first entry strictly after `ms` in a sorted timestamp index (entries.length if none). */
+export function upperBound(times: Float64Array, ms: number): number {
+  let lo = 0, hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] <= ms) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+/* Index of the first entry at or after `ms` (entries.length if none). */
+export function lowerBound(times: Float64Array, ms: number): number {
+  let lo = 0, hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] < ms) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+/* Add freshly parsed entries to an already finalized list (live tail). The common case,
+   everything at or after the last timestamp, only dedupes against the tail; anything
+   older falls back to a full finalizeEntries pass. */
+export function appendEntries(existing: LogEntry[], batch: LogEntry[]): LogEntry[] {
+  if (!batch.length) return existing;
+  const fresh = finalizeEntries([...batch]);
+  const lastTs = existing.length ? existing[existing.length - 1].ts.getTime() : -Infinity;
+  if (fresh[0].ts.getTime() < lastTs) return finalizeEntries([...existing, ...batch]);
+
+  const seen = new Set<string>();
+  for (let i = existing.length - 1; i >= 0 && existing[i].ts.getTime() === lastTs; i--) {
+    const key = dedupeKey(existing[i]);
+    if (key !== undefined) seen.add(key);
+  }
+  const out = existing.slice();
+  for (const e of fresh) {
+    const key = dedupeKey(e);
+    if (key !== undefined && seen.has(key)) continue;
+    out.push(e);
+  }
+  return out;
+}
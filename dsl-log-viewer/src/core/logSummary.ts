@@ -0,0 +1,52 @@
+// src/core/logSummary.ts
+import { stripAnsi } from "./ansi";
+import type { LogEntry } from "./logParser";
+import type { Fight } from "./segmentation";
+
+/* What the log library shows for a stored session */
+export interface LogSummary {
+  character: string | null; // detected from the text, see detectCharacter
+  start: number;            // absolute ms of the first/last entry
+  end: number;
+  durationSec: number;
+  entries: number;
+  fights: number;
+  totalDamage: number;
+}
+
+// Lines that name the logged-in character: login greetings and the score sheet
+const CHARACTER_RES = [
+  /^Welcome (?:back )?to .+?, ([A-Z][a-z]+)\b/,
+  /^Welcome back,? ([A-Z][a-z]+)\b/,
+  /^You are ([A-Z][a-z]+) the /,
+];
+
+/* The character name most of those lines agree on, or null when none appear */
+export function detectCharacter(entries: LogEntry[]): string | null {
+  const votes = new Map<string, number>();
+  for (const e of entries) {
+    if (e.type !== "dsl-message" || !e.message) continue;
+    const text = stripAnsi(e.message).trim();
+    for (const re of CHARACTER_RES) {
+      const m = re.exec(text);
+      if (m) { votes.set(m[1], (votes.get(m[1]) ?? 0) + 1); break; }
+    }
+  }
+  let best: string | null = null;
+  for (const [name, n] of votes) if (!best || n > votes.get(best)!) best = name;
+  return best;
+}
+
+export function summarizeLog(entries: LogEntry[], fights: Fight[]): LogSummary {
+  const start = entries[0]?.ts.getTime() ?? 0;
+  const end = entries[entries.length - 1]?.ts.getTime() ?? 0;
+  return {
+    character: detectCharacter(entries),
+    start,
+    end,
+    durationSec: (end - start) / 1000,
+    entries: entries.length,
+    fights: fights.length,
+    totalDamage: fights.reduce((s, f) => s + f.rounds.reduce((t, r) => t + (r.payload.totalDamage || 0), 0), 0),
+  };
+}
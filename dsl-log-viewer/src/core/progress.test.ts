@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { computeProgress, findDeaths, progressCsv } from "./progress";
+import { segmentFights } from "./segmentation";
+import { T0, dmg, entriesOf, gmcp, hit, msg, round } from "./testLog";
+
+const vitals = (tnl: number, gold: number, hp = 100) => ({ hp, max_hp: 100, tnl, gold, silver: 0 });
+
+describe("computeProgress", () => {
+  const entries = entriesOf([
+    gmcp(0, vitals(1000, 50)),
+    dmg(10, round(hit("You", "troll", 5))),
+    gmcp(12, vitals(700, 80, 40)),      // in the fight: 300 xp, 30 gold, hp 40
+    gmcp(400, vitals(100, 60)),         // 600 xp, 20 gold spent
+    gmcp(410, vitals(2000, 60)),        // level-up: the last 100 of the old level
+    msg(500, "You have been KILLED!!"),
+    gmcp(501, vitals(2200, 0, 1)),      // death penalty: -200 xp, gold lost
+  ]);
+  const fights = segmentFights(entries);
+  const p = computeProgress(entries, fights);
+
+  it("sums the session", () => {
+    expect(p.samples).toBe(5);
+    expect(p.session).toMatchObject({ xp: 800, levels: 1, goldIn: 30, goldOut: 80, deaths: [T0 + 500_000] });
+    expect(p.session.lowestHp).toEqual({ ts: T0 + 501_000, hp: 1, maxHp: 100 });
+  });
+
+  it("attributes changes inside a fight to it", () => {
+    expect(p.fights).toHaveLength(1);
+    expect(p.fights[0]).toMatchObject({ xp: 300, goldIn: 30, levels: 0, deaths: [] });
+    expect(p.fights[0].lowestHp?.hp).toBe(40);
+  });
+
+  it("writes one CSV row per fight and the session", () => {
+    const csv = progressCsv(p, fights, T0).trim().split("\n");
+    expect(csv).toHaveLength(3);
+    expect(csv[1]).toBe("#1,00:00:10,300,0,30,0,0,0,40/100,00:00:12,0");
+    expect(csv[2]).toMatch(/^session,,800,1,/);
+  });
+});
+
+describe("findDeaths", () => {
+  it("merges the message and hp reaching 0 into one death", () => {
+    const entries = entriesOf([gmcp(0, vitals(10, 0, 50)), msg(1, "You are DEAD!!"), gmcp(2, vitals(10, 0, 0)), gmcp(200, vitals(10, 0, -5))]);
+    expect(findDeaths(entries)).toEqual([T0 + 1000]);
+  });
+});
@@ -0,0 +1,115 @@
+// src/core/progress.ts
+import { stripAnsi } from "./ansi";
+import type { CharData, LogEntry } from "./logParser";
+import type { Fight } from "./segmentation";
+
+/* What a stretch of the session earned, spent and survived, from GMCP char_data */
+export interface ProgressTotals {
+  xp: number;        // experience earned (tnl going down); death penalties count negative
+  levels: number;    // level-ups seen (tnl jumping up without a death)
+  goldIn: number;
+  goldOut: number;
+  silverIn: number;
+  silverOut: number;
+  lowestHp: { ts: number; hp: number; maxHp: number } | null;
+  deaths: number[];  // absolute ms
+}
+
+export interface SessionProgress {
+  samples: number;          // char_data samples used
+  session: ProgressTotals;
+  fights: ProgressTotals[]; // same order as the fights passed in
+}
+
+const DEATH_RE = /\bYou have been KILLED\b|\bYou are DEAD\b/i;
+const DEATH_WINDOW_MS = 60 * 1000; // reports of one death (message, hp ≤ 0) this close together are merged
+
+const newTotals = (): ProgressTotals => ({
+  xp: 0, levels: 0, goldIn: 0, goldOut: 0, silverIn: 0, silverOut: 0, lowestHp: null, deaths: [],
+});
+
+const fromSource = (e: LogEntry, source: number) => !e.sources || e.sources.includes(source);
+
+/* Deaths of one character: its hp reaching 0, or the death message in its text */
+export function findDeaths(entries: LogEntry[], source = 0): number[] {
+  const out: number[] = [];
+  let prevHp: number | null = null;
+  const note = (ts: number) => {
+    if (!out.length || ts - out[out.length - 1] > DEATH_WINDOW_MS) out.push(ts);
+  };
+  for (const e of entries) {
+    if (!fromSource(e, source)) continue;
+    if (e.type === "gmcp" && e.charData && typeof e.charData.hp === "number") {
+      if (e.charData.hp <= 0 && (prevHp === null || prevHp > 0)) note(e.ts.getTime());
+      prevHp = e.charData.hp;
+    } else if (e.type === "dsl-message" && e.message && DEATH_RE.test(stripAnsi(e.message))) {
+      note(e.ts.getTime());
+    }
+  }
+  return out;
+}
+
+/* Experience, money, lowest hp and deaths for the whole log and per fight.
+   A change between two samples counts toward the stretch holding the later sample; a fight
+   runs from its first round until its summary is due (or the next fight starts). On a
+   level-up tnl resets, so only the rest of the old level (the last tnl) is counted; the
+   overflow into the new level can't be seen. */
+export function computeProgress(entries: LogEntry[], fights: Fight[], source = 0): SessionProgress {
+  const session = newTotals();
+  const perFight = fights.map(newTotals);
+  const deaths = findDeaths(entries, source);
+  const nearDeath = (ts: number) => deaths.some((d) => Math.abs(d - ts) <= DEATH_WINDOW_MS);
+
+  // fight windows are sorted and don't overlap
+  const windows = fights.map((f, i) => ({ start: f.start, end: Math.min(f.flushAt, fights[i + 1]?.start ?? Infinity) }));
+  let w = 0;
+  const fightAt = (ts: number): ProgressTotals | null => {
+    while (w < windows.length && windows[w].end < ts) w++;
+    return w < windows.length && windows[w].start <= ts ? perFight[w] : null;
+  };
+
+  let prev: CharData | null = null;
+  let samples = 0;
+  for (const e of entries) {
+    if (e.type !== "gmcp" || !e.charData || !fromSource(e, source)) continue;
+    const d = e.charData, ts = e.ts.getTime();
+    samples++;
+    const targets = [session, fightAt(ts)].filter((t): t is ProgressTotals => t !== null);
+    for (const t of targets) {
+      if (typeof d.hp === "number" && (!t.lowestHp || d.hp < t.lowestHp.hp)) t.lowestHp = { ts, hp: d.hp, maxHp: d.max_hp };
+    }
+    if (prev) {
+      const tnl = d.tnl - prev.tnl, gold = d.gold - prev.gold, silver = d.silver - prev.silver;
+      for (const t of targets) {
+        if (tnl < 0) t.xp -= tnl;
+        else if (tnl > 0 && nearDeath(ts)) t.xp -= tnl;
+        else if (tnl > 0) { t.xp += prev.tnl; t.levels++; }
+        if (gold > 0) t.goldIn += gold; else if (gold < 0) t.goldOut -= gold;
+        if (silver > 0) t.silverIn += silver; else if (silver < 0) t.silverOut -= silver;
+      }
+    }
+    prev = d;
+  }
+
+  w = 0;
+  for (const ts of deaths) {
+    session.deaths.push(ts);
+    fightAt(ts)?.deaths.push(ts);
+  }
+  return { samples, session, fights: perFight };
+}
+
+const CSV_HEADER = ["fight", "start", "xp", "levels", "gold in", "gold out", "silver in", "silver out", "lowest hp", "lowest hp at", "deaths"];
+
+const hms = (ms: number) => new Date(Math.max(0, ms)).toISOString().substr(11, 8);
+const csvCell = (v: string | number) => (typeof v === "string" && /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : String(v));
+
+/* One row per fight plus a session total, times relative to `base` */
+export function progressCsv(p: SessionProgress, fights: Fight[], base: number): string {
+  const row = (label: string, start: number | null, t: ProgressTotals) => [
+    label, start === null ? "" : hms(start - base), t.xp, t.levels, t.goldIn, t.goldOut, t.silverIn, t.silverOut,
+    t.lowestHp ? `${t.lowestHp.hp}/${t.lowestHp.maxHp}` : "", t.lowestHp ? hms(t.lowestHp.ts - base) : "", t.deaths.length,
+  ];
+  const rows = [CSV_HEADER, ...p.fights.map((t, i) => row(`#${i + 1}`, fights[i].start, t)), row("session", null, p.session)];
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { actorResolver } from "./actors";
+import { PLAIN_TEXT, renderExport } from "./exporters";
+import { DEFAULT_REDACTION, isTell, parseRedactionConfig, pseudonym, redactor, type RedactionConfig } from "./redaction";
+import { at, dmg, entriesOf, hit, msg, round } from "./testLog";
+
+const cfg = (patch: Partial<RedactionConfig>): RedactionConfig => ({ ...DEFAULT_REDACTION, enabled: true, ...patch });
+
+describe("pseudonym", () => {
+  it("counts like spreadsheet columns", () => {
+    expect([0, 1, 25, 26, 27, 701, 702].map(pseudonym)).toEqual(
+      ["Player A", "Player B", "Player Z", "Player AA", "Player AB", "Player ZZ", "Player AAA"],
+    );
+  });
+});
+
+describe("redactor", () => {
+  it("is null when off or empty", () => {
+    expect(redactor({ ...cfg({ names: ["Bob"] }), enabled: false })).toBeNull();
+    expect(redactor(cfg({ names: [" "], rules: [{ enabled: true, pattern: "(", replacement: "" }] }))).toBeNull();
+  });
+
+  it("replaces whole-word names in any case, numbered by list order", () => {
+    const r = redactor(cfg({ names: ["Bob", "Alice", "bob"] }))!;
+    expect(r.text("bob says hi to ALICE and Bobby; Bob's turn")).toBe("Player A says hi to Player B and Bobby; Player A's turn");
+  });
+
+  it("prefers the longest name and keeps ANSI codes intact", () => {
+    const r = redactor(cfg({ names: ["Bo", "Bo Jack"] }))!;
+    expect(r.text("\x1b[1;32mBo Jack\x1b[0m and \x1b[31mBo\x1b[0m")).toBe("\x1b[1;32mPlayer B\x1b[0m and \x1b[31mPlayer A\x1b[0m");
+  });
+
+  it("applies regex rules after the names", () => {
+    const r = redactor(cfg({ names: ["Bob"], rules: [{ enabled: true, pattern: "account (\\w+)", replacement: "account ***" }, { enabled: true, pattern: "secret", replacement: "" }] }))!;
+    expect(r.text("Bob: account bob42, Secret")).toBe("Player A: account ***, [redacted]");
+  });
+
+  it("drops tells and whispers and rewrites generic data", () => {
+    const r = redactor(cfg({ names: ["Bob"], dropTells: true }))!;
+    const [tell, reply, say, data] = entriesOf([
+      msg(0, "\x1b[35mBob tells you 'hi'\x1b[0m"), msg(1, "You reply to Bob 'yo'"), msg(2, "Bob says 'hi'"),
+      { timestamp: at(3), type: "chat", payload: { from: "Bob", list: ["Bob"] } },
+    ]);
+    expect(r.entry(tell)).toBeNull();
+    expect(r.entry(reply)).toBeNull();
+    expect(r.entry(say)?.message).toBe("Player A says 'hi'");
+    expect(r.entry(data)?.data).toEqual({ from: "Player A", list: ["Player A"] });
+  });
+
+  it("rewrites damage names after the actor mapping", () => {
+    const r = redactor(cfg({ names: ["Bob"] }))!;
+    const actors = r.actors(actorResolver({ rules: [{ name: "You", alias: "Bob" }], partyOnly: false }));
+    expect(actors.name("You")).toBe("Player A");
+    const p = actors.payload(round(hit("You", "troll", 3)));
+    expect(p.events?.[0]).toMatchObject({ source: "Player A", target: "troll" });
+  });
+
+  it("carries through exports, fight summaries included", () => {
+    const entries = entriesOf([msg(0, "Bob tells you 'psst'"), msg(1, "Bob attacks."), dmg(2, round(hit("Bob", "troll", 3)))]);
+    const text = renderExport(entries, PLAIN_TEXT, { redact: redactor(cfg({ names: ["Bob"], dropTells: true })) });
+    expect(text).not.toMatch(/Bob|psst/);
+    expect(text).toContain("Player A attacks.");
+    expect(text).toContain("  Player A: 3 dmg, 1 hits, 0 misses");
+  });
+});
+
+describe("isTell", () => {
+  it("matches tells, whispers and replies both ways", () => {
+    for (const l of ["Bob tells you 'x'", "You tell Bob 'x'", "Bob whispers to you, 'x'", "you whisper to Bob 'x'", "Bob replies to you 'x'"]) {
+      expect(isTell(l), l).toBe(true);
+    }
+    expect(isTell("\x1b[1;36m[ Clan ] \x1b[0mBob tells you 'x'")).toBe(true);
+    expect(isTell("[ Clan ] [ Officer ] You whisper to Bob 'x'")).toBe(true);
+    expect(isTell("Bob tells the group 'x'")).toBe(false);
+    expect(isTell("[ Group ] Bob tells the group 'x'")).toBe(false);
+    expect(isTell("Bob says 'tell you what'")).toBe(false);
+  });
+});
+
+describe("parseRedactionConfig", () => {
+  it("reads exported rules", () => {
+    expect(parseRedactionConfig(JSON.stringify({ names: ["Bob", 3], rules: [{ pattern: "x" }], dropTells: true }))).toEqual({
+      enabled: true, names: ["Bob"], rules: [{ enabled: true, pattern: "x", replacement: "" }], dropTells: true,
+    });
+  });
+
+  it("rejects other JSON", () => {
+    expect(() => parseRedactionConfig("{}")).toThrow(/not a redaction config/);
+  });
+});
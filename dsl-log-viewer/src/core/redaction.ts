@@ -0,0 +1,155 @@
+// src/core/redaction.ts
+import { ANSI_RE, stripAnsi } from "./ansi";
+import type { ActorResolver } from "./actors";
+import type { DamageActorRow, DamagePayload } from "./damage";
+import type { LogEntry } from "./logParser";
+
+/* A regex applied to message text (case-insensitive); the replacement may use $1… */
+export interface RedactionRule {
+  enabled: boolean;
+  pattern: string;
+  replacement: string; // empty = "[redacted]"
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  names: string[];        // each becomes "Player A", "Player B", … in list order
+  rules: RedactionRule[];
+  dropTells: boolean;     // leave out tell/whisper/reply lines entirely
+}
+
+export const DEFAULT_REDACTION: RedactionConfig = { enabled: false, names: [], rules: [], dropTells: false };
+
+const REDACTED = "[redacted]";
+
+// "Bob tells you 'hi'", "You tell Bob 'hi'", "Bob whispers to you …", "You reply to Bob …",
+// also after channel or clan prefixes ("[ Clan ] Bob tells you …")
+const TELL_RE = /^(?:\s*\[[^\]]*]\s*)*\s*(?:\S+ (?:tells|whispers(?: to)?|replies(?: to)?) you\b|you (?:tell|whisper(?: to)?|reply(?: to)?) \S+)/i;
+
+export const isTell = (text: string) => TELL_RE.test(stripAnsi(text));
+
+/* 0 → "Player A", 25 → "Player Z", 26 → "Player AA" */
+export function pseudonym(i: number): string {
+  let s = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return `Player ${s}`;
+}
+
+/* The name list as pseudonyms are numbered: trimmed, blanks and repeats (any case) dropped */
+export function redactedNames(cfg: RedactionConfig): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const raw of cfg.names) {
+    const n = raw.trim();
+    if (!n || seen.has(n.toLowerCase())) continue;
+    seen.add(n.toLowerCase());
+    out.push(n);
+  }
+  return out;
+}
+
+export interface Redactor {
+  text: (s: string) => string;                  // names → pseudonyms, then the rules; ANSI codes are left alone
+  entry: (e: LogEntry) => LogEntry | null;      // message and data rewritten, null = dropped tell
+  actors: (r?: ActorResolver) => ActorResolver; // `r` with the redaction applied to what it returns
+}
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/* Compile one rule, or null when it is off, empty or not a valid regex */
+function compileRule(r: RedactionRule): RegExp | null {
+  if (!r.enabled || !r.pattern.trim()) return null;
+  try { return new RegExp(r.pattern, "gi"); } catch { return null; }
+}
+
+/* Validation message for a rule's pattern, shown next to it in the editor */
+export function redactionRuleError(r: RedactionRule): string | null {
+  if (!r.pattern.trim()) return null;
+  try { new RegExp(r.pattern, "gi"); return null; } catch (err) { return (err as Error).message; }
+}
+
+const IDENTITY: ActorResolver = { name: (raw) => raw, tag: () => undefined, payload: (p) => p };
+
+/* Null when redaction is off or has nothing to do, so callers can skip it entirely */
+export function redactor(cfg: RedactionConfig): Redactor | null {
+  if (!cfg.enabled) return null;
+  const names = redactedNames(cfg);
+  const rules = cfg.rules.map((r) => [compileRule(r), r.replacement || REDACTED] as const).filter(([re]) => re);
+  if (!names.length && !rules.length && !cfg.dropTells) return null;
+
+  const pseudo = new Map(names.map((n, i) => [n.toLowerCase(), pseudonym(i)]));
+  // longest first so "Bobby" wins over "Bob"; a name never matches inside a longer word
+  const nameRe = names.length
+    ? new RegExp(`(?<![\\p{L}\\p{N}_])(?:${[...names].sort((a, b) => b.length - a.length).map(escapeRe).join("|")})(?![\\p{L}\\p{N}_])`, "giu")
+    : null;
+
+  const plain = (s: string) => {
+    if (nameRe) s = s.replace(nameRe, (m) => pseudo.get(m.toLowerCase()) ?? m);
+    for (const [re, rep] of rules) s = s.replace(re!, rep);
+    return s;
+  };
+  // only the text between escape codes, so a rule can't eat a color sequence
+  const text = (s: string) => {
+    if (!s) return s;
+    const codes = s.match(ANSI_RE) ?? [];
+    return s.split(ANSI_RE).map((part, i) => plain(part) + (codes[i] ?? "")).join("");
+  };
+
+  const deep = (v: unknown): unknown => {
+    if (typeof v === "string") return text(v);
+    if (Array.isArray(v)) return v.map(deep);
+    if (v && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, deep(x)]));
+    return v;
+  };
+
+  const entry = (e: LogEntry): LogEntry | null => {
+    if (e.message === undefined && e.data === undefined) return e;
+    if (cfg.dropTells && e.message !== undefined && isTell(e.message)) return null;
+    const out = { ...e };
+    if (e.message !== undefined) out.message = text(e.message);
+    if (e.data !== undefined) out.data = deep(e.data);
+    return out;
+  };
+
+  const rows = (list?: DamageActorRow[]) => list?.map((r) => ({ ...r, actor: text(r.actor || "") }));
+  const cache = new WeakMap<DamagePayload, DamagePayload>();
+  const payload = (p: DamagePayload): DamagePayload => {
+    let out = cache.get(p);
+    if (!out) {
+      out = {
+        ...p,
+        events: p.events?.map((ev) => ({ ...ev, raw: text(ev.raw || ""), source: text(ev.source || ""), target: text(ev.target || "") })),
+        bySource: rows(p.bySource),
+        byTarget: rows(p.byTarget),
+      };
+      cache.set(p, out);
+    }
+    return out;
+  };
+
+  // after the actor mapping, whose rules are written against the real names
+  const actors = (r: ActorResolver = IDENTITY): ActorResolver => ({
+    name: (raw) => text(r.name(raw)),
+    tag: r.tag,
+    payload: (p) => payload(r.payload(p)),
+  });
+
+  return { text, entry, actors };
+}
+
+/* Rules JSON as exported by the viewer (also read by the CLI's --redact) */
+export function parseRedactionConfig(text: string): RedactionConfig {
+  const obj = JSON.parse(text);
+  if (!obj || !Array.isArray(obj.names) || !Array.isArray(obj.rules)) throw new Error("not a redaction config (no names/rules)");
+  const rules: RedactionRule[] = [];
+  for (const r of obj.rules) {
+    if (!r || typeof r.pattern !== "string") throw new Error("every rule needs a pattern");
+    rules.push({ enabled: r.enabled !== false, pattern: r.pattern, replacement: typeof r.replacement === "string" ? r.replacement : "" });
+  }
+  return {
+    enabled: obj.enabled !== false,
+    names: obj.names.filter((n: unknown): n is string => typeof n === "string"),
+    rules,
+    dropTells: obj.dropTells === true,
+  };
+}
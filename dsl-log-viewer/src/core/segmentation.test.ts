@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  NO_EDITS, combatSpans, fightIndexAt, segmentFights, splitPoint, withMerge, withSplit, type SegmentationConfig,
+} from "./segmentation";
+import { T0, dmg, entriesOf, gmcp, hit, round } from "./testLog";
+
+const r = round(hit("Bob", "orc", 5));
+const GAP: SegmentationConfig = { mode: "gap", gapMs: 60_000 };
+const GMCP: SegmentationConfig = { mode: "gmcp", gapMs: 60_000 };
+const starts = (fs: { start: number }[]) => fs.map((f) => (f.start - T0) / 1000);
+
+describe("segmentFights (gap)", () => {
+  const entries = entriesOf([dmg(0, r), dmg(10, r), dmg(100, r), dmg(110, r)]);
+
+  it("starts a new fight after the quiet gap", () => {
+    const fights = segmentFights(entries, GAP);
+    expect(starts(fights)).toEqual([0, 100]);
+    expect(fights[0].rounds).toHaveLength(2);
+    expect(fights[0].flushAt).toBe(T0 + 10_000 + 60_000);
+  });
+
+  it("uses a longer gap as one fight", () => {
+    expect(segmentFights(entries, { mode: "gap", gapMs: 120_000 })).toHaveLength(1);
+  });
+
+  it("has no fights without damage", () => {
+    expect(segmentFights([], GAP)).toEqual([]);
+  });
+});
+
+describe("segmentFights (gmcp)", () => {
+  // two combat spans 20s apart: far closer than the gap, still two fights
+  const entries = entriesOf([
+    gmcp(0, { is_fighting: true }), dmg(1, r), dmg(5, r), gmcp(6, { is_fighting: false }),
+    gmcp(20, { is_fighting: true }), dmg(21, r), gmcp(25, { is_fighting: false }),
+    dmg(200, r),
+  ]);
+
+  it("follows is_fighting and falls back to the gap outside combat", () => {
+    const fights = segmentFights(entries, GMCP);
+    expect(starts(fights)).toEqual([1, 21, 200]);
+    expect(fights[0].flushAt).toBe(T0 + 6_000);
+  });
+
+  it("is one fight under the gap rule", () => {
+    expect(starts(segmentFights(entries, GAP))).toEqual([1, 200]);
+  });
+
+  it("finds spans across sources", () => {
+    expect(combatSpans(entries).map((s) => (s.start - T0) / 1000)).toEqual([0, 20]);
+  });
+});
+
+describe("manual edits", () => {
+  const entries = entriesOf([dmg(0, r), dmg(10, r), dmg(20, r), dmg(100, r)]);
+  const ts = (sec: number) => T0 + sec * 1000;
+
+  it("splits at a round and merges a fight into the one before", () => {
+    const split = segmentFights(entries, GAP, withSplit(NO_EDITS, ts(10)));
+    expect(starts(split)).toEqual([0, 10, 100]);
+    const merged = segmentFights(entries, GAP, withMerge(NO_EDITS, ts(100)));
+    expect(starts(merged)).toEqual([0]);
+  });
+
+  it("undoes a split by merging at the same round", () => {
+    const edits = withMerge(withSplit(NO_EDITS, ts(10)), ts(10));
+    expect(edits).toEqual(NO_EDITS);
+  });
+
+  it("looks fights up by time and proposes the next round as split point", () => {
+    const fights = segmentFights(entries, GAP);
+    expect(fightIndexAt(fights, ts(50))).toBe(0);
+    expect(fightIndexAt(fights, ts(100))).toBe(1);
+    expect(fightIndexAt(fights, ts(-1))).toBe(-1);
+    expect(splitPoint(fights, ts(12))).toBe(ts(20));
+    expect(splitPoint(fights, ts(20))).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+// src/core/segmentation.ts
+import { FIVE_MIN_MS, type DamageRound } from "./damage";
+import { entryDamage } from "./entryTypes";
+import type { LogEntry } from "./logParser";
+
+/* How damage rounds are grouped into fights:
+   - "gap":  a fight ends once damage has been quiet for `gapMs`
+   - "gmcp": fights follow char_data.is_fighting; rounds outside any GMCP combat fall back to the gap rule */
+export type SegmentMode = "gap" | "gmcp";
+
+export interface SegmentationConfig {
+  mode: SegmentMode;
+  gapMs: number;
+}
+
+export const DEFAULT_SEGMENTATION: SegmentationConfig = { mode: "gap", gapMs: FIVE_MIN_MS };
+
+/* Manual corrections on top of the automatic boundaries, keyed by round timestamps */
+export interface FightEdits {
+  splitAt: number[]; // rounds that start a new fight
+  mergeAt: number[]; // fight starts folded into the fight before
+}
+
+export const NO_EDITS: FightEdits = { splitAt: [], mergeAt: [] };
+
+export interface Fight {
+  start: number;   // absolute ms of first round
+  end: number;     // absolute ms of last round
+  flushAt: number; // absolute ms after which the fight is over (its summary is due)
+  rounds: DamageRound[];
+}
+
+const GMCP_GRACE_MS = 3000; // rounds logged just before/after the flag flips still count
+
+export function damageRounds(entries: LogEntry[]): DamageRound[] {
+  const rounds: DamageRound[] = [];
+  for (const e of entries) {
+    const payload = entryDamage(e);
+    if (payload) rounds.push({ ts: e.ts.getTime(), payload });
+  }
+  return rounds;
+}
+
+/* Spans where any loaded character has is_fighting set (end = Infinity while still fighting) */
+export function combatSpans(entries: LogEntry[]): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const fighting = new Set<number>();
+  let start = 0;
+  for (const e of entries) {
+    const flag = e.type === "gmcp" ? e.charData?.is_fighting : undefined;
+    if (typeof flag !== "boolean") continue;
+    const ts = e.ts.getTime();
+    const before = fighting.size;
+    for (const s of e.sources ?? [0]) {
+      if (flag) fighting.add(s); else fighting.delete(s);
+    }
+    if (!before && fighting.size) start = ts;
+    else if (before && !fighting.size) spans.push({ start, end: ts });
+  }
+  if (fighting.size) spans.push({ start, end: Infinity });
+  return spans;
+}
+
+/* Damage rounds → fights under the chosen mode, then the manual splits and merges */
+export function segmentFights(entries: LogEntry[], cfg: SegmentationConfig = DEFAULT_SEGMENTATION, edits: FightEdits = NO_EDITS): Fight[] {
+  const rounds = damageRounds(entries);
+  if (!rounds.length) return [];
+
+  // GMCP combat span of every round (-1 = none)
+  const spans = cfg.mode === "gmcp" ? combatSpans(entries) : [];
+  const spanOf: number[] = [];
+  let j = 0;
+  for (const r of rounds) {
+    while (j < spans.length && spans[j].end + GMCP_GRACE_MS < r.ts) j++;
+    spanOf.push(j < spans.length && spans[j].start - GMCP_GRACE_MS <= r.ts ? j : -1);
+  }
+
+  const starts = new Set<number>(); // indexes of rounds that open a fight (besides the first)
+  for (let i = 1; i < rounds.length; i++) {
+    const a = spanOf[i - 1], b = spanOf[i];
+    if (a >= 0 && b >= 0 ? a !== b : rounds[i].ts - rounds[i - 1].ts >= cfg.gapMs) starts.add(i);
+  }
+  const merges = new Set(edits.mergeAt);
+  for (const i of [...starts]) if (merges.has(rounds[i].ts)) starts.delete(i);
+  for (const ts of edits.splitAt) {
+    const i = rounds.findIndex((r) => r.ts >= ts);
+    // never between two rounds with the same timestamp: the fight of a round is looked up by its time
+    if (i > 0 && rounds[i].ts > rounds[i - 1].ts) starts.add(i);
+  }
+
+  const fights: Fight[] = [];
+  let cur: Fight | null = null;
+  rounds.forEach((r, i) => {
+    if (!cur || starts.has(i)) {
+      cur = { start: r.ts, end: r.ts, flushAt: 0, rounds: [] };
+      fights.push(cur);
+    }
+    cur.end = r.ts;
+    cur.rounds.push(r);
+    const span = spans[spanOf[i]];
+    cur.flushAt = span && span.end !== Infinity ? Math.max(span.end, r.ts) : r.ts + cfg.gapMs;
+  });
+  return fights;
+}
+
+/* Index of the fight a round at `ts` belongs to: the last one starting at or before it (-1 = none) */
+export function fightIndexAt(fights: Fight[], ts: number): number {
+  let lo = 0, hi = fights.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (fights[mid].start <= ts) lo = mid + 1; else hi = mid;
+  }
+  return lo - 1;
+}
+
+/* Where "split at ts" would start the new fight: the first round after `ts` in the fight around it */
+export function splitPoint(fights: Fight[], ts: number): number | null {
+  const f = fights[fightIndexAt(fights, ts)];
+  return f?.rounds.find((r) => r.ts > ts)?.ts ?? null;
+}
+
+export const withSplit = (edits: FightEdits, ts: number): FightEdits =>
+  edits.mergeAt.includes(ts)
+    ? { ...edits, mergeAt: edits.mergeAt.filter((x) => x !== ts) }
+    : { ...edits, splitAt: [...edits.splitAt, ts] };
+
+export const withMerge = (edits: FightEdits, ts: number): FightEdits =>
+  edits.splitAt.includes(ts)
+    ? { ...edits, splitAt: edits.splitAt.filter((x) => x !== ts) }
+    : { ...edits, mergeAt: [...edits.mergeAt, ts] };
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_COMBAT_CONFIG } from "./combatParser";
+import { mergeSources, withEstimatedDamage } from "./session";
+import { dmg, entriesOf, hit, msg, round } from "./testLog";
+
+describe("mergeSources", () => {
+  it("returns a single file untouched", () => {
+    const a = entriesOf([msg(1, "a")]);
+    expect(mergeSources([a])).toBe(a);
+    expect(mergeSources([])).toEqual([]);
+  });
+
+  it("interleaves files by time", () => {
+    const out = mergeSources([entriesOf([msg(1, "a1"), msg(3, "a3")], 0), entriesOf([msg(2, "b2")], 1)]);
+    expect(out.map((e) => e.message)).toEqual(["a1", "b2", "a3"]);
+  });
+
+  it("merges a line both files logged within the window and records both sources", () => {
+    const out = mergeSources([entriesOf([msg(1, "Bob arrives.")], 0), entriesOf([msg(2.5, "Bob arrives.")], 1)]);
+    expect(out).toHaveLength(1);
+    expect(out[0].sources).toEqual([0, 1]);
+  });
+
+  it("keeps repeats from one file and lines outside the window", () => {
+    const same = mergeSources([entriesOf([msg(1, "Bob arrives."), msg(2, "Bob arrives.")], 0), entriesOf([], 1)]);
+    expect(same).toHaveLength(2);
+    const late = mergeSources([entriesOf([msg(1, "Bob arrives.")], 0), entriesOf([msg(4, "Bob arrives.")], 1)]);
+    expect(late).toHaveLength(2);
+  });
+
+  it("never merges first-person lines", () => {
+    for (const line of ["You are hungry.", "\x1b[1;32m[ Group ] \x1b[0mYour sword glows."]) {
+      const out = mergeSources([entriesOf([msg(1, line)], 0), entriesOf([msg(1, line)], 1)]);
+      expect(out, line).toHaveLength(2);
+    }
+  });
+
+  it("merges lines that only mention you", () => {
+    const line = "[ Group ] Bob tells the group 'are you ready?'";
+    const out = mergeSources([entriesOf([msg(1, line)], 0), entriesOf([msg(1, line)], 1)]);
+    expect(out).toHaveLength(1);
+  });
+
+  it("merges a damage round both files logged, unless it involves You", () => {
+    const both = mergeSources([entriesOf([dmg(1, round(hit("Bob", "troll", 10)))], 0), entriesOf([dmg(1.5, round(hit("Bob", "troll", 10)))], 1)]);
+    expect(both).toHaveLength(1);
+    expect(both[0].sources).toEqual([0, 1]);
+    expect(both[0].payload).toMatchObject({ totalDamage: 10, hits: 1 });
+    const mine = mergeSources([entriesOf([dmg(1, round(hit("You", "troll", 10)))], 0), entriesOf([dmg(1, round(hit("You", "troll", 10)))], 1)]);
+    expect(mine).toHaveLength(2);
+  });
+});
+
+describe("withEstimatedDamage", () => {
+  it("leaves logs with damage entries alone", () => {
+    const parsed = entriesOf([msg(1, "x"), { timestamp: new Date(0).toISOString(), type: "damage", payload: { totalDamage: 1, hits: 1, misses: 0 } }]);
+    expect(withEstimatedDamage(parsed, DEFAULT_COMBAT_CONFIG)).toBe(parsed);
+  });
+});
@@ -0,0 +1,88 @@
+// src/core/session.ts
+import { stripAnsi } from "./ansi";
+import { deriveDamageRounds, type CombatParserConfig } from "./combatParser";
+import { normalizeActor, type DamagePayload } from "./damage";
+import { parseLog, type LogEntry } from "./logParser";
+
+/* Interleave several parsed files by timestamp.
+   Cross-file dedupe extends parseLog's key: two clients never log the same line at the
+   same millisecond, so a dsl-message matches an identical message from ANOTHER file
+   within MERGE_WINDOW_MS, and the kept entry records both sources. Lines whose subject
+   is first-person ("You …", "Your …", after any "[ Group ] " channel prefix) read the
+   same for every logger but are different events, so they are never merged. Damage
+   rounds merge the same way on their events (or rollup when they have none), unless
+   an actor is "You". */
+const MERGE_WINDOW_MS = 2000;
+const FIRST_PERSON_RE = /^(?:\s*\[[^\]]*]\s*)*(?:You|Your)\b/;
+
+const isFirstPersonActor = (name: string) => /^(?:you|your)$/i.test(normalizeActor(name).trim());
+
+function damageKey(p: DamagePayload): string | null {
+  const actors = [
+    ...(p.events ?? []).flatMap((ev) => [ev.source, ev.target]),
+    ...(p.bySource ?? []).map((r) => r.actor),
+    ...(p.byTarget ?? []).map((r) => r.actor),
+  ];
+  if (actors.some(isFirstPersonActor)) return null;
+  return JSON.stringify(p.events?.length ? p.events : [p.totalDamage, p.hits, p.misses, p.bySource ?? [], p.byTarget ?? []]);
+}
+
+/* Cross-file identity of an entry, or null when it never merges */
+function mergeKey(e: LogEntry): string | null {
+  if (e.type === "dsl-message") {
+    return e.message && !FIRST_PERSON_RE.test(stripAnsi(e.message)) ? `m:${e.message}` : null;
+  }
+  if (e.type === "damage" && e.payload) {
+    const key = damageKey(e.payload);
+    return key === null ? null : `d:${key}`;
+  }
+  return null;
+}
+
+export function mergeSources(lists: LogEntry[][]): LogEntry[] {
+  if (lists.length <= 1) return lists[0] ?? [];
+  const all = lists.flat().sort((a, b) => a.ts.getTime() - b.ts.getTime());
+  const recent = new Map<string, LogEntry[]>(); // merge key → kept entries inside the window
+  const out: LogEntry[] = [];
+  for (const e of all) {
+    const key = mergeKey(e);
+    if (key === null) {
+      out.push(e);
+      continue;
+    }
+    const ts = e.ts.getTime();
+    const src = e.sources?.[0] ?? 0;
+    const kept = (recent.get(key) ?? []).filter((k) => ts - k.ts.getTime() <= MERGE_WINDOW_MS);
+    const twin = kept.find((k) => !k.sources?.includes(src));
+    if (twin) {
+      twin.sources = [...(twin.sources ?? []), src];
+      recent.set(key, kept);
+      continue;
+    }
+    const copy = { ...e };
+    kept.push(copy);
+    recent.set(key, kept);
+    out.push(copy);
+  }
+  return out;
+}
+
+/* Older logs have only dsl-message lines: add estimated damage rounds derived from the
+   combat text so round lines and fight summaries still work. Logs that carry real
+   damage entries are returned untouched. */
+export function withEstimatedDamage(parsed: LogEntry[], cfg: CombatParserConfig): LogEntry[] {
+  if (parsed.some((e) => e.type === "damage")) return parsed;
+  const lines = parsed
+    .filter((e) => e.type === "dsl-message")
+    .map((e) => ({ ts: e.ts.getTime(), text: stripAnsi(e.message ?? "") }));
+  const rounds = deriveDamageRounds(lines, cfg);
+  if (!rounds.length) return parsed;
+  const synthetic: LogEntry[] = rounds.map((r) => ({ ts: new Date(r.ts), type: "damage", subtype: "estimated", payload: r.payload }));
+  // stable sort keeps each round after the text lines sharing its timestamp
+  return [...parsed, ...synthetic].sort((a, b) => a.ts.getTime() - b.ts.getTime());
+}
+
+/* Parse several JSONL texts (one per file) into one timeline, the way the viewer loads them */
+export function loadSession(texts: string[], cfg: CombatParserConfig): LogEntry[] {
+  return withEstimatedDamage(mergeSources(texts.map((t, i) => parseLog(t, i))), cfg);
+}
@@ -0,0 +1,28 @@
+// src/core/testLog.ts
+// Builders for JSONL lines in the unit tests (not part of the core's public surface)
+import type { DamageEvent, DamagePayload } from "./damage";
+import type { LogEntry } from "./logParser";
+import { parseLog } from "./logParser";
+
+export const T0 = Date.parse("2024-01-01T12:00:00.000Z");
+
+/* ISO timestamp `sec` seconds after T0 */
+export const at = (sec: number) => new Date(T0 + sec * 1000).toISOString();
+
+export const msg = (sec: number, text: string) => ({ timestamp: at(sec), type: "dsl-message", payload: text });
+export const dmg = (sec: number, payload: object) => ({ timestamp: at(sec), type: "damage", payload });
+export const gmcp = (sec: number, data: object) => ({ timestamp: at(sec), type: "gmcp", subtype: "char_data", payload: data });
+
+export const jsonl = (...lines: object[]) => lines.map((l) => JSON.stringify(l)).join("\n");
+
+/* Parse builder lines as file number `source` */
+export const entriesOf = (lines: object[], source = 0): LogEntry[] => parseLog(jsonl(...lines), source);
+
+export const hit = (source: string, target: string, amount: number, verbKey = "hits"): DamageEvent =>
+  ({ raw: `${source} ${verbKey} ${target}`, source, target, verbKey, amount });
+
+/* A round from its events, with the rollups filled in the way the client logs them */
+export function round(...events: DamageEvent[]): DamagePayload {
+  const hits = events.filter((e) => e.amount > 0);
+  return { totalDamage: hits.reduce((s, e) => s + e.amount, 0), hits: hits.length, misses: events.length - hits.length, events };
+}